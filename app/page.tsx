@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from "react"
 import { GameCanvas } from "@/components/game-canvas"
 import { ControlPanel } from "@/components/control-panel"
 import type { GameEngine, GameState } from "@/lib/game-engine"
+import { countRows } from "@/lib/dataset"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Brain, Gamepad2, Settings, Trophy, Zap, AlertTriangle, X, ArrowDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -275,7 +276,7 @@ export default function FlappyMLGame() {
   const handleGameEngineReady = (engine: GameEngine) => {
     setGameEngine(engine)
     gameEngineRef.current = engine
-    setDataCount(engine.dataset.length)
+    setDataCount(countRows(engine.dataset))
     setHighScore(engine.highScore)
     engine.setLevel(currentLevel)
 
@@ -897,6 +898,7 @@ export default function FlappyMLGame() {
               currentScore={score}
               currentLevel={currentLevel}
               isPaused={isChatOpen}
+              isAI={isAI}
             />
           </div>
 
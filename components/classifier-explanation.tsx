@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { GameEngine } from "@/lib/game-engine"
+import { ALGORITHM_LABELS, type Explanation, type TreeNode } from "@/lib/classifiers"
+
+interface ClassifierExplanationProps {
+  gameEngine: GameEngine | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Often enough to follow the bird, rarely enough that k-NN's full scan stays cheap
+const REFRESH_MS = 250
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`
+
+// Each feature pushes the score towards "jump" (positive) or "wait" (negative); the sum plus
+// the bias goes through the sigmoid
+function CoefficientView({
+  explanation,
+  labels,
+}: {
+  explanation: Extract<Explanation, { algorithm: "logistic" }>
+  labels: string[]
+}) {
+  const largest = Math.max(...explanation.contributions.map(Math.abs), Math.abs(explanation.bias), 1e-6)
+  const rows = [
+    ...explanation.contributions.map((contribution, i) => ({
+      label: labels[i],
+      weight: explanation.weights[i],
+      contribution,
+    })),
+    { label: "Bias", weight: null, contribution: explanation.bias },
+  ]
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ label, weight, contribution }) => (
+        <div key={label} className="grid grid-cols-[7rem_1fr_4rem] items-center gap-2 text-[10px] sm:text-xs">
+          <span>
+            {label}
+            {weight !== null && <span className="text-muted-foreground font-mono"> ×{weight.toFixed(2)}</span>}
+          </span>
+          <div className="relative h-3 rounded bg-muted">
+            <div className="absolute inset-y-0 left-1/2 w-px bg-foreground/30" />
+            <div
+              className={`absolute inset-y-0 rounded ${contribution >= 0 ? "left-1/2 bg-green-500" : "right-1/2 bg-red-500"}`}
+              style={{ width: `${(Math.abs(contribution) / largest) * 50}%` }}
+            />
+          </div>
+          <span className="text-right font-mono">{contribution.toFixed(2)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-[9px] sm:text-[10px] text-muted-foreground">
+        <span>← towards waiting</span>
+        <span>towards jumping →</span>
+      </div>
+    </div>
+  )
+}
+
+function NeighbourView({
+  explanation,
+  labels,
+}: {
+  explanation: Extract<Explanation, { algorithm: "knn" }>
+  labels: string[]
+}) {
+  return (
+    <Table className="text-[10px] sm:text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead className="h-6 px-1">#</TableHead>
+          {labels.map((label) => (
+            <TableHead key={label} className="h-6 px-1">
+              {label}
+            </TableHead>
+          ))}
+          <TableHead className="h-6 px-1">Action</TableHead>
+          <TableHead className="h-6 px-1 text-right">Distance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {explanation.neighbours.map((neighbour, i) => (
+          <TableRow key={i} className={neighbour.label === 1 ? "bg-green-50 dark:bg-green-950/30" : undefined}>
+            <TableCell className="px-1 py-0.5">{i + 1}</TableCell>
+            {neighbour.features.map((value, j) => (
+              <TableCell key={j} className="px-1 py-0.5 font-mono">
+                {value.toFixed(2)}
+              </TableCell>
+            ))}
+            <TableCell className="px-1 py-0.5">{neighbour.label === 1 ? "jump" : "wait"}</TableCell>
+            <TableCell className="px-1 py-0.5 text-right font-mono">{neighbour.distance.toFixed(3)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+// Drawn as an indented outline: every question has a "yes" and a "no" branch. The branches the
+// current frame went down are highlighted.
+function TreeBranch({
+  node,
+  path,
+  labels,
+  answer,
+}: {
+  node: TreeNode
+  path: number[]
+  labels: string[]
+  answer?: string
+}) {
+  const onPath = path.includes(node.id)
+  const highlight = onPath ? "bg-amber-100 dark:bg-amber-900/40 font-semibold" : "text-muted-foreground"
+
+  return (
+    <li className="space-y-0.5">
+      <div className={`inline-block rounded px-1 ${highlight}`}>
+        {answer && <span className="mr-1 font-mono">{answer}</span>}
+        {node.split ? (
+          <span>
+            {labels[node.split.feature]} ≤ {node.split.threshold.toFixed(2)}?
+          </span>
+        ) : (
+          <span>
+            {node.probability >= 0.5 ? "jump" : "wait"} ({formatPercent(node.probability)} jumped, {node.samples}{" "}
+            frames)
+          </span>
+        )}
+      </div>
+      {node.split && (
+        <ul className="ml-3 border-l pl-2 space-y-0.5">
+          <TreeBranch node={node.split.left} path={path} labels={labels} answer="yes" />
+          <TreeBranch node={node.split.right} path={path} labels={labels} answer="no" />
+        </ul>
+      )}
+    </li>
+  )
+}
+
+// Why the AI bird is (or would be) jumping right now, in the terms of the algorithm that flies it
+export function ClassifierExplanation({ gameEngine, open, onOpenChange }: ClassifierExplanationProps) {
+  const [explanation, setExplanation] = useState<Explanation | null>(null)
+  const labels = gameEngine?.modelFeatureLabels() ?? []
+
+  useEffect(() => {
+    if (!open || !gameEngine) return
+    const refresh = () => setExplanation(gameEngine.explainDecision())
+    refresh()
+    const interval = setInterval(refresh, REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [open, gameEngine])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Why did it jump?</DialogTitle>
+          <DialogDescription>
+            {explanation
+              ? `${ALGORITHM_LABELS[explanation.algorithm]} · ${formatPercent(explanation.probability)} sure it should jump on the current frame.`
+              : "Train or load a model first."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {explanation && gameEngine?.featureStats && explanation.algorithm !== "neural" && (
+          <div className="text-[10px] sm:text-xs text-muted-foreground">
+            Inputs are standardized: 0 is the training average and ±1 is one standard deviation.
+          </div>
+        )}
+
+        {explanation?.algorithm === "logistic" && <CoefficientView explanation={explanation} labels={labels} />}
+
+        {explanation?.algorithm === "knn" && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">
+              The {explanation.k} recorded frames most like this one. The bird copies what you did in them.
+            </div>
+            <NeighbourView explanation={explanation} labels={labels} />
+          </div>
+        )}
+
+        {explanation?.algorithm === "tree" && (
+          <ul className="text-[10px] sm:text-xs">
+            <TreeBranch node={explanation.root} path={explanation.path} labels={labels} />
+          </ul>
+        )}
+
+        {explanation?.algorithm === "neural" && (
+          <div className="space-y-1 text-xs">
+            <div className="font-mono">{explanation.summary}</div>
+            <div className="text-muted-foreground">
+              A neural network spreads its reasoning over all of its weights, so there is no single rule to point at.
+              Train a decision tree in the Experiment panel to get a model you can read.
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,8 +7,46 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
-import { Play, Pause, Trash2, Download, Upload, Brain, Bot, X } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Play,
+  Pause,
+  Trash2,
+  Download,
+  Upload,
+  Brain,
+  Bot,
+  X,
+  Lock,
+  Unlock,
+  Film,
+  ClipboardCheck,
+  Lightbulb,
+  Table2,
+  GraduationCap,
+} from "lucide-react"
 import type { GameEngine } from "@/lib/game-engine"
+import { countRows } from "@/lib/dataset"
+import type { ImportReport } from "@/lib/dataset-file"
+import { DATASET_FORMATS, formatExtension, formatLabel, type DatasetFormat } from "@/lib/dataset-formats"
+import { parseSeed } from "@/lib/random"
+import { TrainingCancelledError } from "@/lib/training-client"
+import { DEFAULT_TRAINING_CONFIG, type TrainingConfig } from "@/lib/training-config"
+import { ExperimentPanel } from "@/components/experiment-panel"
+import { LearningCurveChart } from "@/components/learning-curve-chart"
+import { ModelReportCard } from "@/components/model-report-card"
+import { ClassifierExplanation } from "@/components/classifier-explanation"
+import { DatasetInspector, type InspectorTab } from "@/components/dataset-inspector"
+import { ExpertDataDialog } from "@/components/expert-data"
+import { ImportReportDialog } from "@/components/import-report"
+import { MyModels } from "@/components/my-models"
+import { EvolutionPanel } from "@/components/evolution-panel"
+import { RLPanel } from "@/components/rl-panel"
+import type { EvaluationReport } from "@/lib/evaluation"
+import type { ModelInsights } from "@/lib/importance"
+import type { SavedModelMeta } from "@/lib/model-store"
+import type { EpochMetrics } from "@/lib/ml-trainer"
 import type { Level } from "@/app/page"
 import { CoinIcon } from "@/components/ui/coin-icon"
 
@@ -58,7 +96,22 @@ export function ControlPanel({
   const [showProgress, setShowProgress] = useState(false)
   const [isDeveloperMode, setIsDeveloperMode] = useState(false)
   const [completionMessage, setCompletionMessage] = useState("")
+  const [seedInput, setSeedInput] = useState("")
+  const [lockedSeed, setLockedSeed] = useState<number | null>(null)
+  const [trainingConfig, setTrainingConfig] = useState<TrainingConfig>(DEFAULT_TRAINING_CONFIG)
+  const [trainingHistory, setTrainingHistory] = useState<EpochMetrics[]>([])
+  const [trainingEpochs, setTrainingEpochs] = useState(DEFAULT_TRAINING_CONFIG.epochs)
+  const [evaluationReport, setEvaluationReport] = useState<EvaluationReport | null>(null)
+  const [modelInsights, setModelInsights] = useState<ModelInsights | null>(null)
+  const [showReportCard, setShowReportCard] = useState(false)
+  const [showExplanation, setShowExplanation] = useState(false)
+  const [showDataset, setShowDataset] = useState(false)
+  const [showExperts, setShowExperts] = useState(false)
+  const [importReport, setImportReport] = useState<ImportReport | null>(null)
+  const [dataFormat, setDataFormat] = useState<DatasetFormat>("csv")
+  const [datasetTab, setDatasetTab] = useState<InspectorTab>("rows")
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const replayInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -73,6 +126,14 @@ export function ControlPanel({
     return () => window.removeEventListener("keydown", handleKeyDown)
   }, [isDeveloperMode])
 
+  // The Experiment panel unlocks once a level has been completed (or in developer mode);
+  // until then every student trains the standard network
+  const isExperimentUnlocked = isDeveloperMode || levelProgress[currentLevel].aiStarted
+
+  useEffect(() => {
+    gameEngine?.setTrainingConfig(isExperimentUnlocked ? trainingConfig : DEFAULT_TRAINING_CONFIG)
+  }, [gameEngine, isExperimentUnlocked, trainingConfig])
+
   useEffect(() => {
     setRecordingState("idle")
     gameEngine?.pauseRecording() // Stop any active recording
@@ -106,38 +167,81 @@ export function ControlPanel({
       setShowProgress(false)
       setProgress(0)
       setProgressText("")
+      setTrainingHistory([])
+      setEvaluationReport(null)
+      setModelInsights(null)
     }
   }
 
-  const handleDownloadCSV = () => {
-    gameEngine?.downloadCSV()
+  const handleToggleSeedLock = () => {
+    if (lockedSeed !== null) {
+      gameEngine?.setCourseSeed(null)
+      setLockedSeed(null)
+      return
+    }
+    // An empty box locks the course the student is currently flying
+    const seed = seedInput.trim() === "" ? (gameEngine?.seed ?? null) : parseSeed(seedInput)
+    if (seed === null) {
+      alert("The seed must be a whole number, e.g. 123456")
+      return
+    }
+    gameEngine?.setCourseSeed(seed)
+    setLockedSeed(seed)
+    setSeedInput(String(seed))
+  }
+
+  const handleDownloadData = () => {
+    gameEngine?.downloadDataset(dataFormat)
   }
 
-  const handleUploadCSV = () => {
+  const handleUploadData = () => {
     fileInputRef.current?.click()
   }
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file && gameEngine) {
+      setImportReport(await gameEngine.uploadDataset(file, dataFormat))
+    }
+    // Reset input
+    event.target.value = ""
+  }
+
+  const handleReplayFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file && gameEngine) {
       try {
-        await gameEngine.uploadCSV(file)
+        await gameEngine.loadReplayFile(file)
       } catch (error) {
-        console.error("Upload failed:", error)
+        console.error("Replay load failed:", error)
+        alert("Could not load replay: " + (error as Error).message)
       }
     }
-    // Reset input
     event.target.value = ""
   }
 
   const handleTrainModel = async (event: React.MouseEvent<HTMLButtonElement>) => {
     const minRequired = levelRequirements[currentLevel].min
-    if (!gameEngine || gameEngine.dataset.length < minRequired) {
+    if (!gameEngine || countRows(gameEngine.dataset) < minRequired) {
       const timeRequired = getTimeRequirement(currentLevel)
       alert(`Need at least ${timeRequired} of gameplay recording to train effectively for this level!`)
       return
     }
 
+    // Failing data checks open the inspector instead of training on data that cannot work
+    const diagnostics = gameEngine.diagnoseDataset()
+    if (diagnostics.status === "fail") {
+      setDatasetTab("checks")
+      setShowDataset(true)
+      return
+    }
+    if (diagnostics.status === "warn") {
+      console.warn(
+        "[v0] Data check warnings:",
+        diagnostics.checks.filter((check) => check.status === "warn").map((check) => check.title),
+      )
+    }
+
     onTrainModelClick(event.currentTarget)
 
     if (recordingState === "recording") {
@@ -150,6 +254,14 @@ export function ControlPanel({
     setProgress(10)
     setProgressText("Preparing dataset...")
     setCompletionMessage("")
+    setTrainingHistory([])
+    setEvaluationReport(null)
+    setModelInsights(null)
+    setTrainingEpochs(gameEngine.trainingConfig.epochs)
+
+    gameEngine.onEpochEnd = (_metrics, history) => {
+      setTrainingHistory(history)
+    }
 
     gameEngine.onProgressUpdate = (percent: number, text: string) => {
       setProgress(percent)
@@ -162,18 +274,36 @@ export function ControlPanel({
 
     try {
       await gameEngine.trainModel()
+      setEvaluationReport(gameEngine.evaluationReport)
+      setModelInsights(gameEngine.modelInsights)
+      setShowReportCard(gameEngine.evaluationReport !== null)
       setTimeout(() => {
         setShowProgress(false)
       }, 2000)
     } catch (error) {
-      console.error("Training failed:", error)
-      alert("Training failed: " + (error as Error).message)
+      if (error instanceof TrainingCancelledError) {
+        setCompletionMessage("Training cancelled. Record more gameplay or clear your data and try again.")
+      } else {
+        console.error("Training failed:", error)
+        alert("Training failed: " + (error as Error).message)
+      }
       setShowProgress(false)
     } finally {
       setIsTraining(false)
     }
   }
 
+  const handleModelLoaded = (meta: SavedModelMeta) => {
+    setTrainingHistory([])
+    setEvaluationReport(meta.report)
+    setModelInsights(meta.insights ?? null)
+    setCompletionMessage(`Loaded "${meta.name}". Press Start AI to watch it fly.`)
+  }
+
+  const handleCancelTraining = () => {
+    gameEngine?.cancelTraining()
+  }
+
   const handleToggleAI = (event: React.MouseEvent<HTMLButtonElement>) => {
     if (isAI) {
       gameEngine?.stopAI()
@@ -328,6 +458,29 @@ export function ControlPanel({
                       : `Need ${currentLevel === "underfitting" ? "exactly" : "at least"} ${Math.floor(levelRequirements[currentLevel].min / 10)} seconds`}
                 </div>
               </div>
+
+              <Button
+                onClick={() => {
+                  setDatasetTab("rows")
+                  setShowDataset(true)
+                }}
+                variant="ghost"
+                size="sm"
+                disabled={dataCount === 0}
+                className="w-full text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+              >
+                <Table2 className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+                <span className="truncate">Inspect data ({gameEngine?.dataset.length ?? 0} runs)</span>
+              </Button>
+              <Button
+                onClick={() => setShowExperts(true)}
+                variant="ghost"
+                size="sm"
+                className="w-full text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+              >
+                <GraduationCap className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+                <span className="truncate">Expert data</span>
+              </Button>
             </div>
 
             <div className="flex gap-0.5 sm:gap-1">
@@ -369,6 +522,33 @@ export function ControlPanel({
               )}
             </div>
 
+            <div className="flex items-center gap-0.5 sm:gap-1">
+              <span className="text-[8px] sm:text-[10px] md:text-xs text-muted-foreground whitespace-nowrap">
+                Course Seed:
+              </span>
+              <Input
+                value={seedInput}
+                onChange={(event) => setSeedInput(event.target.value)}
+                placeholder="random"
+                inputMode="numeric"
+                disabled={lockedSeed !== null}
+                className="h-5 sm:h-6 md:h-7 px-1 sm:px-2 font-mono text-[8px] sm:text-[10px] md:text-xs"
+              />
+              <Button
+                onClick={handleToggleSeedLock}
+                variant="outline"
+                size="sm"
+                title={lockedSeed !== null ? "Unlock course" : "Lock every run to this course"}
+                className="h-5 sm:h-6 md:h-7 px-1 sm:px-2 min-w-0 bg-transparent"
+              >
+                {lockedSeed !== null ? (
+                  <Lock className="h-2 w-2 sm:h-3 sm:w-3" />
+                ) : (
+                  <Unlock className="h-2 w-2 sm:h-3 sm:w-3" />
+                )}
+              </Button>
+            </div>
+
             <Button
               onClick={handleClearDataset}
               variant="destructive"
@@ -408,12 +588,23 @@ export function ControlPanel({
                 <div className="text-[7px] sm:text-[9px] md:text-[10px] text-muted-foreground text-center font-mono truncate">
                   {progressText}
                 </div>
+                {isTraining && (
+                  <Button
+                    onClick={handleCancelTraining}
+                    variant="outline"
+                    size="sm"
+                    className="w-full bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+                  >
+                    <X className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+                    <span className="truncate">Cancel Training</span>
+                  </Button>
+                )}
               </div>
             )}
 
             <Button
               onClick={handleToggleAI}
-              disabled={!gameEngine?.model}
+              disabled={!gameEngine?.classifier}
               variant={isAI ? "outline" : "default"}
               className={`w-full text-[8px] sm:text-[10px] md:text-xs py-1 sm:py-2 h-5 sm:h-6 md:h-7 lg:h-8 min-w-0 transition-all duration-300 ${
                 guidanceTarget === "ai" ? "animate-pulse" : ""
@@ -423,6 +614,32 @@ export function ControlPanel({
               <span className="truncate">{isAI ? "🤖 Stop AI" : "🤖 Start AI"}</span>
             </Button>
 
+            <LearningCurveChart history={trainingHistory} totalEpochs={trainingEpochs} />
+
+            {evaluationReport && !isTraining && (
+              <Button
+                onClick={() => setShowReportCard(true)}
+                variant="outline"
+                size="sm"
+                className="w-full bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+              >
+                <ClipboardCheck className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+                <span className="truncate">Model Report Card</span>
+              </Button>
+            )}
+
+            {gameEngine?.classifier && !isTraining && (
+              <Button
+                onClick={() => setShowExplanation(true)}
+                variant="outline"
+                size="sm"
+                className="w-full bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+              >
+                <Lightbulb className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+                <span className="truncate">Why did it jump?</span>
+              </Button>
+            )}
+
             {completionMessage && (
               <div className="text-[7px] sm:text-[9px] md:text-[10px] text-center text-muted-foreground bg-muted/50 rounded p-1 sm:p-2">
                 {completionMessage}
@@ -430,6 +647,16 @@ export function ControlPanel({
             )}
           </div>
 
+          {isExperimentUnlocked && (
+            <ExperimentPanel config={trainingConfig} onChange={setTrainingConfig} disabled={isTraining} />
+          )}
+
+          <MyModels gameEngine={gameEngine} disabled={isTraining} onModelLoaded={handleModelLoaded} />
+
+          {isExperimentUnlocked && <EvolutionPanel gameEngine={gameEngine} disabled={isTraining} />}
+
+          {isExperimentUnlocked && <RLPanel gameEngine={gameEngine} disabled={isTraining} />}
+
           {isDeveloperMode && (
             <div className="space-y-1 sm:space-y-2 p-1 sm:p-2 bg-orange-50 dark:bg-orange-950/20 rounded-lg border border-orange-200 dark:border-orange-800">
               <div className="flex items-center gap-1 sm:gap-2 mb-1">
@@ -443,8 +670,24 @@ export function ControlPanel({
               </div>
 
               <div className="flex gap-0.5 sm:gap-1">
+                <Select value={dataFormat} onValueChange={(value) => setDataFormat(value as DatasetFormat)}>
+                  <SelectTrigger
+                    size="sm"
+                    title="File format for downloads, and for uploads whose extension is not recognised"
+                    className="h-4 sm:h-5 md:h-6 w-auto px-1 text-[7px] sm:text-[9px] md:text-[10px]"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATASET_FORMATS.map((format) => (
+                      <SelectItem key={format} value={format} className="text-[10px] sm:text-xs">
+                        {formatLabel(format)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
-                  onClick={handleDownloadCSV}
+                  onClick={handleDownloadData}
                   variant="outline"
                   size="sm"
                   className="flex-1 bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
@@ -454,7 +697,7 @@ export function ControlPanel({
                   <span className="truncate">Download</span>
                 </Button>
                 <Button
-                  onClick={handleUploadCSV}
+                  onClick={handleUploadData}
                   variant="outline"
                   size="sm"
                   className="flex-1 bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
@@ -463,11 +706,51 @@ export function ControlPanel({
                   <span className="truncate">Upload</span>
                 </Button>
               </div>
-              <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileChange} className="hidden" />
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={[...DATASET_FORMATS.map(formatExtension), ".ndjson"].join(",")}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+
+              <Button
+                onClick={() => replayInputRef.current?.click()}
+                variant="outline"
+                size="sm"
+                className="w-full bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+              >
+                <Film className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+                <span className="truncate">Load Replay</span>
+              </Button>
+              <input
+                ref={replayInputRef}
+                type="file"
+                accept=".json"
+                onChange={handleReplayFileChange}
+                className="hidden"
+              />
             </div>
           )}
         </CardContent>
       </Card>
+
+      <ModelReportCard
+        report={evaluationReport}
+        insights={modelInsights}
+        featureLabels={gameEngine?.modelFeatureLabels()}
+        open={showReportCard}
+        onOpenChange={setShowReportCard}
+      />
+      <ClassifierExplanation gameEngine={gameEngine} open={showExplanation} onOpenChange={setShowExplanation} />
+      <DatasetInspector
+        gameEngine={gameEngine}
+        open={showDataset}
+        onOpenChange={setShowDataset}
+        initialTab={datasetTab}
+      />
+      <ExpertDataDialog gameEngine={gameEngine} open={showExperts} onOpenChange={setShowExperts} />
+      <ImportReportDialog report={importReport} onOpenChange={(open) => !open && setImportReport(null)} />
     </div>
   )
 }
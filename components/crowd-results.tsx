@@ -0,0 +1,91 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Trophy, X } from "lucide-react"
+import type { CrowdStatus, GameEngine } from "@/lib/game-engine"
+import { CROWD_SPEEDS } from "@/lib/crowd"
+import { TICKS_PER_SECOND } from "@/lib/simulation"
+
+interface CrowdResultsProps {
+  gameEngine: GameEngine
+  status: CrowdStatus
+}
+
+const formatTicks = (ticks: number) => `${(ticks / TICKS_PER_SECOND).toFixed(1)}s`
+
+const cellClass = "px-1 py-0.5 text-[8px] sm:text-[10px] md:text-xs"
+
+// Live leaderboard over the canvas while several birds share one course
+export function CrowdResults({ gameEngine, status }: CrowdResultsProps) {
+  const aliveCount = status.results.filter((result) => result.alive).length
+
+  return (
+    <div className="absolute bottom-2 left-2 right-2 bg-card/95 backdrop-blur-sm shadow-xl rounded-lg border border-border p-1.5 sm:p-2 space-y-1">
+      <div className="flex items-center gap-1 sm:gap-2 text-[8px] sm:text-[10px] md:text-xs">
+        <Trophy className="h-2 w-2 sm:h-3 sm:w-3 text-yellow-600" />
+        <span className="font-semibold flex-1">
+          {status.title} · seed {status.seed}
+        </span>
+        <span className="font-mono text-muted-foreground whitespace-nowrap">
+          {status.finished ? "finished" : `${aliveCount} flying`} · {formatTicks(status.tick)}
+        </span>
+        <Select value={String(status.speed)} onValueChange={(value) => gameEngine.setCrowdSpeed(Number(value))}>
+          <SelectTrigger size="sm" className="h-5 sm:h-6 w-14 sm:w-16 text-[8px] sm:text-[10px] md:text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CROWD_SPEEDS.map((speed) => (
+              <SelectItem key={speed} value={String(speed)} className="text-[10px] sm:text-xs">
+                {speed}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => gameEngine.stopCrowd()}
+          variant="outline"
+          size="sm"
+          title="Close"
+          className="h-5 sm:h-6 px-1 min-w-0 bg-transparent"
+        >
+          <X className="h-2 w-2 sm:h-3 sm:w-3" />
+        </Button>
+      </div>
+
+      <div className="max-h-32 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className={`${cellClass} h-auto`}>#</TableHead>
+              <TableHead className={`${cellClass} h-auto`}>Model</TableHead>
+              <TableHead className={`${cellClass} h-auto text-right`}>Survived</TableHead>
+              <TableHead className={`${cellClass} h-auto text-right`}>Pipes</TableHead>
+              <TableHead className={`${cellClass} h-auto text-right`}>Jumps</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {status.results.map((result, index) => (
+              <TableRow key={result.id} className={result.alive ? "" : "text-muted-foreground"}>
+                <TableCell className={`${cellClass} font-mono`}>{index + 1}</TableCell>
+                <TableCell className={cellClass}>
+                  <span className="flex items-center gap-1">
+                    <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: result.color }} />
+                    <span className="truncate max-w-[120px]">{result.name}</span>
+                  </span>
+                </TableCell>
+                <TableCell className={`${cellClass} text-right font-mono`}>
+                  {formatTicks(result.survivalTicks)}
+                  {result.alive && !status.finished ? "…" : ""}
+                </TableCell>
+                <TableCell className={`${cellClass} text-right font-mono`}>{result.pipesPassed}</TableCell>
+                <TableCell className={`${cellClass} text-right font-mono`}>{result.jumps}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,418 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Trash2,
+  Wrench,
+  XCircle,
+} from "lucide-react"
+import { Bar, BarChart, CartesianGrid, Scatter, ScatterChart, XAxis, YAxis } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { EpisodeList } from "@/components/episode-list"
+import type { GameData, GameEngine } from "@/lib/game-engine"
+import { countRows, type Episode } from "@/lib/dataset"
+import type { CheckId, CheckStatus, DiagnosticsReport } from "@/lib/diagnostics"
+import { FEATURES } from "@/lib/features"
+
+export type InspectorTab = "checks" | "rows" | "runs" | "charts"
+
+interface DatasetInspectorProps {
+  gameEngine: GameEngine | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialTab?: InspectorTab
+}
+
+type RawColumn = "y" | "vel" | "dist" | "mid1" | "mid2"
+
+type SortColumn = "episode" | "pressed" | RawColumn
+
+type LabelFilter = "all" | "jump" | "wait"
+
+interface InspectorRow {
+  episode: number
+  row: GameData
+}
+
+const RAW_COLUMNS: RawColumn[] = ["y", "vel", "dist", "mid1", "mid2"]
+
+const PAGE_SIZE = 50
+
+const HISTOGRAM_BINS = 20
+
+// Points per class in the scatter plot; more than this only slows the chart down
+const MAX_SCATTER_POINTS = 1500
+
+const classConfig = {
+  jump: { label: "Jump", color: "#16a34a" },
+  wait: { label: "No jump", color: "#2563eb" },
+} satisfies ChartConfig
+
+function histogram(rows: GameData[], column: RawColumn) {
+  // A loop rather than Math.min(...values): a large merged dataset overflows the argument limit
+  let min = Infinity
+  let max = -Infinity
+  for (const row of rows) {
+    if (!Number.isFinite(row[column])) continue
+    min = Math.min(min, row[column])
+    max = Math.max(max, row[column])
+  }
+  const width = (max - min) / HISTOGRAM_BINS || 1
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    value: Number((min + (i + 0.5) * width).toFixed(1)),
+    jump: 0,
+    wait: 0,
+  }))
+  for (const row of rows) {
+    if (!Number.isFinite(row[column])) continue
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((row[column] - min) / width))
+    bins[bin][row.pressed === 1 ? "jump" : "wait"]++
+  }
+  return bins
+}
+
+function thin<T>(items: T[]): T[] {
+  if (items.length <= MAX_SCATTER_POINTS) return items
+  const step = items.length / MAX_SCATTER_POINTS
+  return Array.from({ length: MAX_SCATTER_POINTS }, (_, i) => items[Math.floor(i * step)])
+}
+
+const STATUS_STYLES: Record<CheckStatus, { icon: typeof CheckCircle2; className: string; label: string }> = {
+  pass: { icon: CheckCircle2, className: "text-green-600", label: "Pass" },
+  warn: { icon: AlertTriangle, className: "text-amber-500", label: "Warning" },
+  fail: { icon: XCircle, className: "text-red-600", label: "Fail" },
+}
+
+function ChecksView({ report, onFix }: { report: DiagnosticsReport; onFix: (check: CheckId) => void }) {
+  return (
+    <div className="space-y-2">
+      {report.checks.map((check) => {
+        const { icon: Icon, className } = STATUS_STYLES[check.status]
+        return (
+          <div key={check.id} className="flex items-start gap-2 rounded border p-2 text-[10px] sm:text-xs">
+            <Icon className={`h-4 w-4 flex-shrink-0 ${className}`} />
+            <div className="flex-1 space-y-0.5">
+              <div className="font-semibold">{check.title}</div>
+              <div className="text-muted-foreground">{check.detail}</div>
+            </div>
+            {check.fix && (
+              <Button onClick={() => onFix(check.id)} variant="outline" size="sm" className="h-6 text-[10px] sm:text-xs">
+                <Wrench className="h-3 w-3 mr-1" />
+                {check.fix} ({check.affected})
+              </Button>
+            )}
+          </div>
+        )
+      })}
+      <div className="text-[9px] sm:text-[10px] text-muted-foreground">
+        Training refuses data with a failing check. Warnings are worth a look but do not block it.
+      </div>
+    </div>
+  )
+}
+
+function SortHeader({
+  column,
+  label,
+  sort,
+  onSort,
+}: {
+  column: SortColumn
+  label: string
+  sort: { column: SortColumn; descending: boolean }
+  onSort: (column: SortColumn) => void
+}) {
+  const Arrow = sort.descending ? ArrowDown : ArrowUp
+  return (
+    <TableHead className="h-6 px-1">
+      <button onClick={() => onSort(column)} className="inline-flex items-center gap-0.5 hover:text-foreground">
+        {label}
+        {sort.column === column && <Arrow className="h-2.5 w-2.5" />}
+      </button>
+    </TableHead>
+  )
+}
+
+function RowsView({ rows, onRemove }: { rows: InspectorRow[]; onRemove: (row: GameData) => void }) {
+  const [filter, setFilter] = useState<LabelFilter>("all")
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({
+    column: "episode",
+    descending: false,
+  })
+  const [page, setPage] = useState(0)
+
+  const shown = useMemo(() => {
+    const filtered = rows.filter(({ row }) => filter === "all" || (row.pressed === 1) === (filter === "jump"))
+    const valueOf = ({ episode, row }: InspectorRow) => (sort.column === "episode" ? episode : row[sort.column])
+    // Array.prototype.sort is stable, so rows with equal values keep their recording order
+    return filtered.sort((a, b) => (sort.descending ? valueOf(b) - valueOf(a) : valueOf(a) - valueOf(b)))
+  }, [rows, filter, sort])
+
+  const pageCount = Math.max(1, Math.ceil(shown.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pageRows = shown.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  const handleSort = (column: SortColumn) => {
+    setSort((current) => ({ column, descending: current.column === column ? !current.descending : false }))
+    setPage(0)
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-[10px] sm:text-xs">
+        <Select
+          value={filter}
+          onValueChange={(value) => {
+            setFilter(value as LabelFilter)
+            setPage(0)
+          }}
+        >
+          <SelectTrigger size="sm" className="h-6 w-32 text-[10px] sm:text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-[10px] sm:text-xs">
+              All frames
+            </SelectItem>
+            <SelectItem value="jump" className="text-[10px] sm:text-xs">
+              Jumps only
+            </SelectItem>
+            <SelectItem value="wait" className="text-[10px] sm:text-xs">
+              No-jumps only
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="flex-1 text-muted-foreground">{shown.length} frames</span>
+        <Button
+          onClick={() => setPage(currentPage - 1)}
+          disabled={currentPage === 0}
+          variant="outline"
+          size="sm"
+          className="h-6 w-6 p-0"
+        >
+          <ChevronLeft className="h-3 w-3" />
+        </Button>
+        <span className="font-mono">
+          {currentPage + 1}/{pageCount}
+        </span>
+        <Button
+          onClick={() => setPage(currentPage + 1)}
+          disabled={currentPage >= pageCount - 1}
+          variant="outline"
+          size="sm"
+          className="h-6 w-6 p-0"
+        >
+          <ChevronRight className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <Table className="text-[10px] sm:text-xs">
+        <TableHeader>
+          <TableRow>
+            <SortHeader column="episode" label="Run" sort={sort} onSort={handleSort} />
+            <SortHeader column="pressed" label="Action" sort={sort} onSort={handleSort} />
+            {RAW_COLUMNS.map((column) => (
+              <SortHeader key={column} column={column} label={column} sort={sort} onSort={handleSort} />
+            ))}
+            <TableHead className="h-6 px-1" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pageRows.map(({ episode, row }, i) => (
+            <TableRow
+              key={currentPage * PAGE_SIZE + i}
+              className={row.pressed === 1 ? "bg-green-50 dark:bg-green-950/30" : undefined}
+            >
+              <TableCell className="px-1 py-0.5">{episode}</TableCell>
+              <TableCell className="px-1 py-0.5">{row.pressed === 1 ? "jump" : "wait"}</TableCell>
+              {RAW_COLUMNS.map((column) => (
+                <TableCell key={column} className="px-1 py-0.5 font-mono">
+                  {row[column].toFixed(1)}
+                </TableCell>
+              ))}
+              <TableCell className="px-1 py-0.5 text-right">
+                <Button
+                  onClick={() => onRemove(row)}
+                  variant="ghost"
+                  size="sm"
+                  title="Remove this frame"
+                  className="h-5 w-5 p-0"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+function ChartsView({ rows }: { rows: GameData[] }) {
+  const histograms = useMemo(() => RAW_COLUMNS.map((column) => ({ column, bins: histogram(rows, column) })), [rows])
+  const scatter = useMemo(
+    () => ({
+      jump: thin(rows.filter((row) => row.pressed === 1)),
+      wait: thin(rows.filter((row) => row.pressed !== 1)),
+    }),
+    [rows],
+  )
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-1 sm:col-span-2">
+        <div className="text-xs font-semibold">
+          {FEATURES.y.label} against {FEATURES.mid1.label.toLowerCase()}
+        </div>
+        <ChartContainer config={classConfig} className="h-56 w-full">
+          <ScatterChart margin={{ top: 4, right: 8, bottom: 0, left: -10 }}>
+            <CartesianGrid />
+            <XAxis dataKey="mid1" type="number" name="mid1" tickLine={false} fontSize={9} />
+            {/* Reversed so the chart reads like the screen: small y is the top */}
+            <YAxis dataKey="y" type="number" name="y" reversed tickLine={false} fontSize={9} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Scatter
+              name="wait"
+              data={scatter.wait}
+              fill="var(--color-wait)"
+              fillOpacity={0.4}
+              isAnimationActive={false}
+            />
+            <Scatter
+              name="jump"
+              data={scatter.jump}
+              fill="var(--color-jump)"
+              fillOpacity={0.7}
+              isAnimationActive={false}
+            />
+          </ScatterChart>
+        </ChartContainer>
+        <div className="text-[9px] sm:text-[10px] text-muted-foreground">
+          Green dots are jumps. Most of them should be frames where the bird was lower than the gap (y above mid1).
+        </div>
+      </div>
+
+      {histograms.map(({ column, bins }) => (
+        <div key={column} className="space-y-1">
+          <div className="text-xs font-semibold">
+            {FEATURES[column].label} <span className="font-mono font-normal text-muted-foreground">({column})</span>
+          </div>
+          <ChartContainer config={classConfig} className="h-28 w-full">
+            <BarChart data={bins} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="value" tickLine={false} fontSize={9} />
+              <YAxis tickLine={false} fontSize={9} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="wait" stackId="label" fill="var(--color-wait)" isAnimationActive={false} />
+              <Bar dataKey="jump" stackId="label" fill="var(--color-jump)" isAnimationActive={false} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// The recorded data as a table, per-run list and charts, so lopsided or broken data shows up
+// before it is trained on
+export function DatasetInspector({ gameEngine, open, onOpenChange, initialTab = "rows" }: DatasetInspectorProps) {
+  const [dataset, setDataset] = useState<Episode[]>([])
+  const [tab, setTab] = useState<InspectorTab>(initialTab)
+
+  const refresh = () => setDataset(gameEngine ? [...gameEngine.dataset] : [])
+
+  useEffect(() => {
+    if (!open) return
+    if (gameEngine) setDataset([...gameEngine.dataset])
+    setTab(initialTab)
+  }, [open, gameEngine, initialTab])
+
+  const rows = useMemo(
+    () => dataset.flatMap((episode) => episode.rows.map((row) => ({ episode: episode.id, row }))),
+    [dataset],
+  )
+  const gameRows = useMemo(() => rows.map(({ row }) => row), [rows])
+
+  const jumps = gameRows.filter((row) => row.pressed === 1).length
+  const jumpShare = jumps / Math.max(1, gameRows.length)
+  // dataset is the engine's dataset at the last refresh, so this re-runs after every edit
+  const report = useMemo(
+    () => (dataset.length > 0 ? (gameEngine?.diagnoseDataset() ?? null) : null),
+    [dataset, gameEngine],
+  )
+  const summary = report && STATUS_STYLES[report.status]
+
+  const handleRemoveRow = (row: GameData) => {
+    gameEngine?.removeRows([row])
+    refresh()
+  }
+
+  const handleFix = (check: CheckId) => {
+    gameEngine?.fixDataset(check)
+    refresh()
+  }
+
+  const handleRemoveEpisode = (id: number) => {
+    gameEngine?.removeEpisode(id)
+    refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Your Data</DialogTitle>
+          <DialogDescription className="flex flex-wrap items-center gap-1">
+            <span>
+              {countRows(dataset)} frames in {dataset.length} runs: {jumps} jumps, {gameRows.length - jumps} no-jumps (
+              {(jumpShare * 100).toFixed(1)}% jumps).
+            </span>
+            {summary && (
+              <Badge
+                variant={report.status === "fail" ? "destructive" : "outline"}
+                className="cursor-pointer text-[9px] sm:text-[10px]"
+                onClick={() => setTab("checks")}
+              >
+                Data check: {summary.label}
+              </Badge>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as InspectorTab)}>
+          <TabsList>
+            <TabsTrigger value="checks">Check</TabsTrigger>
+            <TabsTrigger value="rows">Frames</TabsTrigger>
+            <TabsTrigger value="runs">Runs</TabsTrigger>
+            <TabsTrigger value="charts">Charts</TabsTrigger>
+          </TabsList>
+          <TabsContent value="checks">{report && <ChecksView report={report} onFix={handleFix} />}</TabsContent>
+          <TabsContent value="rows">
+            <RowsView rows={rows} onRemove={handleRemoveRow} />
+          </TabsContent>
+          <TabsContent value="runs">
+            <EpisodeList
+              episodes={dataset}
+              recordingEpisode={gameEngine?.recordingEpisode ?? null}
+              onRemove={handleRemoveEpisode}
+            />
+          </TabsContent>
+          <TabsContent value="charts">{gameRows.length > 0 && <ChartsView rows={gameRows} />}</TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { GameEngine } from "@/lib/game-engine"
+
+interface DecisionAttributionProps {
+  gameEngine: GameEngine
+}
+
+// Decisions happen ten times per game second; five refreshes per second is enough to follow them
+const REFRESH_MS = 200
+
+// "Why did it jump just now?": each bar is how much one input moved the jump probability on the
+// latest decision, measured by swapping that input for its training average
+export function DecisionAttribution({ gameEngine }: DecisionAttributionProps) {
+  const [attribution, setAttribution] = useState<number[] | null>(null)
+
+  useEffect(() => {
+    const interval = setInterval(() => setAttribution(gameEngine.attributeDecision()), REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [gameEngine])
+
+  if (!attribution) return null
+
+  const largest = Math.max(...attribution.map(Math.abs), 0.05)
+  const labels = gameEngine.modelFeatureLabels()
+
+  return (
+    <div className="absolute top-10 right-2 w-28 sm:w-36 bg-black/50 rounded px-1.5 py-1 text-white space-y-0.5 pointer-events-none">
+      <div className="text-[8px] sm:text-[10px] font-semibold">Why this decision?</div>
+      {attribution.map((value, feature) => (
+        <div key={feature} className="space-y-px">
+          <div className="flex justify-between text-[7px] sm:text-[9px]">
+            <span className="truncate">{labels[feature]}</span>
+            <span className="font-mono">
+              {value >= 0 ? "+" : ""}
+              {value.toFixed(2)}
+            </span>
+          </div>
+          <div className="relative h-1.5 rounded bg-white/20">
+            <div className="absolute inset-y-0 left-1/2 w-px bg-white/60" />
+            <div
+              className={`absolute inset-y-0 rounded ${value >= 0 ? "left-1/2 bg-red-400" : "right-1/2 bg-blue-400"}`}
+              style={{ width: `${(Math.abs(value) / largest) * 50}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex justify-between text-[6px] sm:text-[8px] text-white/70">
+        <span>wait</span>
+        <span>jump</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { END_LABELS, type Episode } from "@/lib/dataset"
+
+interface EpisodeListProps {
+  episodes: Episode[]
+  recordingEpisode: Episode | null
+  onRemove: (id: number) => void
+}
+
+// Every recorded run with how it ended, so a run that crashed straight away can be dropped before training
+export function EpisodeList({ episodes, recordingEpisode, onRemove }: EpisodeListProps) {
+  return (
+    <Table className="text-[10px] sm:text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead className="h-6 px-1">#</TableHead>
+          <TableHead className="h-6 px-1">Player</TableHead>
+          <TableHead className="h-6 px-1">Level</TableHead>
+          <TableHead className="h-6 px-1 text-right">Score</TableHead>
+          <TableHead className="h-6 px-1">Ended</TableHead>
+          <TableHead className="h-6 px-1 text-right">Frames</TableHead>
+          <TableHead className="h-6 px-1 text-right">Jumps</TableHead>
+          <TableHead className="h-6 px-1">Started</TableHead>
+          <TableHead className="h-6 px-1" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {episodes.map((episode) => (
+          <TableRow key={episode.id}>
+            <TableCell className="px-1 py-0.5">{episode.id}</TableCell>
+            <TableCell className="px-1 py-0.5">{episode.player ?? "—"}</TableCell>
+            <TableCell className="px-1 py-0.5">{episode.level ?? "—"}</TableCell>
+            <TableCell className="px-1 py-0.5 text-right font-mono">{episode.finalScore ?? "—"}</TableCell>
+            <TableCell className="px-1 py-0.5">
+              {episode.end ? END_LABELS[episode.end] : recordingEpisode === episode ? "Recording" : "—"}
+            </TableCell>
+            <TableCell className="px-1 py-0.5 text-right font-mono">{episode.rows.length}</TableCell>
+            <TableCell className="px-1 py-0.5 text-right font-mono">
+              {episode.rows.filter((row) => row.pressed === 1).length}
+            </TableCell>
+            <TableCell className="px-1 py-0.5 whitespace-nowrap">
+              {new Date(episode.startedAt).toLocaleTimeString()}
+            </TableCell>
+            <TableCell className="px-1 py-0.5 text-right">
+              <Button
+                onClick={() => onRemove(episode.id)}
+                variant="ghost"
+                size="sm"
+                title="Remove this run from the dataset"
+                className="h-5 w-5 p-0"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import type { NameType, Payload, ValueType } from "recharts/types/component/DefaultTooltipContent"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Dna, FastForward, Play, Square } from "lucide-react"
+import type { EvolutionStatus, GameEngine } from "@/lib/game-engine"
+import {
+  DEFAULT_EVOLUTION_CONFIG,
+  EVOLUTION_LIMITS,
+  type EvolutionConfig,
+  type FitnessMode,
+} from "@/lib/neuroevolution"
+
+interface EvolutionPanelProps {
+  gameEngine: GameEngine | null
+  disabled?: boolean
+}
+
+const FAST_FORWARD_GENERATIONS = 10
+
+const fitnessConfig = {
+  best: { label: "Best", color: "#16a34a" },
+  mean: { label: "Average", color: "#9ca3af" },
+} satisfies ChartConfig
+
+const labelClass = "text-[8px] sm:text-[10px] md:text-xs text-muted-foreground"
+const buttonClass = "flex-1 bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+
+const formatGenerationLabel = (_: unknown, payload: readonly Payload<ValueType, NameType>[]) =>
+  `Generation ${payload?.[0]?.payload?.generation}`
+
+// Learning by trial and error, next to the supervised "learning from a teacher" controls
+export function EvolutionPanel({ gameEngine, disabled = false }: EvolutionPanelProps) {
+  const [config, setConfig] = useState<EvolutionConfig>(DEFAULT_EVOLUTION_CONFIG)
+  const [status, setStatus] = useState<EvolutionStatus | null>(null)
+
+  useEffect(() => {
+    if (!gameEngine) return
+    gameEngine.onEvolutionUpdate = setStatus
+    return () => {
+      gameEngine.onEvolutionUpdate = undefined
+    }
+  }, [gameEngine])
+
+  const update = (changes: Partial<EvolutionConfig>) => setConfig((current) => ({ ...current, ...changes }))
+  const isRunning = status !== null
+  const latest = status?.history[status.history.length - 1]
+
+  const sliders: { key: keyof typeof EVOLUTION_LIMITS; label: string; format: (value: number) => string }[] = [
+    { key: "populationSize", label: "Population", format: (value) => String(value) },
+    { key: "mutationRate", label: "Mutation rate", format: (value) => value.toFixed(2) },
+    { key: "mutationStrength", label: "Mutation size", format: (value) => value.toFixed(2) },
+    { key: "crossoverRate", label: "Crossover", format: (value) => value.toFixed(2) },
+    { key: "eliteCount", label: "Elites kept", format: (value) => String(value) },
+  ]
+
+  return (
+    <div className="space-y-1 sm:space-y-2 p-1 sm:p-2 lg:p-3 bg-lime-50 dark:bg-lime-950/20 rounded-lg border border-lime-200 dark:border-lime-800">
+      <div className="flex items-center gap-1 sm:gap-2">
+        <Dna className="h-2 w-2 sm:h-3 sm:w-3 lg:h-4 lg:w-4 text-lime-600" />
+        <span className="text-[9px] sm:text-[11px] md:text-xs font-semibold text-foreground flex-1">Evolution</span>
+        {status && (
+          <Badge variant="outline" className="font-mono text-[7px] sm:text-[9px] md:text-[10px] px-1">
+            gen {status.generation}
+            {latest ? ` · best ${latest.bestPipes} pipes` : ""}
+          </Badge>
+        )}
+      </div>
+
+      {sliders.map(({ key, label, format }) => {
+        const limits = EVOLUTION_LIMITS[key]
+        return (
+          <div key={key} className="flex items-center gap-1 sm:gap-2">
+            <span className={`${labelClass} w-20 sm:w-24 whitespace-nowrap`}>
+              {label}: {format(config[key])}
+            </span>
+            <Slider
+              value={[config[key]]}
+              min={limits.min}
+              max={limits.max}
+              step={"step" in limits ? limits.step : 1}
+              disabled={disabled || isRunning}
+              onValueChange={([value]) => update({ [key]: value })}
+              className="flex-1"
+            />
+          </div>
+        )
+      })}
+
+      <div className="flex items-center gap-1 sm:gap-2">
+        <span className={`${labelClass} w-20 sm:w-24 whitespace-nowrap`}>Fitness</span>
+        <Select
+          value={config.fitness}
+          disabled={disabled || isRunning}
+          onValueChange={(value) => update({ fitness: value as FitnessMode })}
+        >
+          <SelectTrigger size="sm" className="h-5 sm:h-6 md:h-7 flex-1 text-[8px] sm:text-[10px] md:text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="distance" className="text-[10px] sm:text-xs">
+              distance flown
+            </SelectItem>
+            <SelectItem value="score" className="text-[10px] sm:text-xs">
+              pipes passed
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-0.5 sm:gap-1">
+        {isRunning ? (
+          <Button onClick={() => gameEngine?.stopCrowd()} variant="outline" size="sm" className={buttonClass}>
+            <Square className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+            <span className="truncate">Stop</span>
+          </Button>
+        ) : (
+          <Button
+            onClick={() => gameEngine?.startEvolution(config)}
+            variant="outline"
+            size="sm"
+            disabled={disabled || !gameEngine}
+            className={buttonClass}
+          >
+            <Play className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+            <span className="truncate">Evolve</span>
+          </Button>
+        )}
+        <Button
+          onClick={() => gameEngine?.fastForwardEvolution(FAST_FORWARD_GENERATIONS)}
+          variant="outline"
+          size="sm"
+          disabled={!isRunning || status?.fastForwarding}
+          className={buttonClass}
+        >
+          <FastForward className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+          <span className="truncate">
+            {status?.fastForwarding ? "Skipping..." : `Skip ${FAST_FORWARD_GENERATIONS} generations`}
+          </span>
+        </Button>
+      </div>
+
+      {status && status.history.length > 0 && (
+        <ChartContainer config={fitnessConfig} className="aspect-auto h-28 sm:h-32 w-full">
+          <LineChart data={status.history} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="generation" tickLine={false} fontSize={9} />
+            <YAxis tickLine={false} fontSize={9} domain={[0, "auto"]} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={formatGenerationLabel} />} />
+            <Line dataKey="best" stroke="var(--color-best)" dot={false} strokeWidth={2} isAnimationActive={false} />
+            <Line dataKey="mean" stroke="var(--color-mean)" dot={false} strokeWidth={2} isAnimationActive={false} />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
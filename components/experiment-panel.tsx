@@ -0,0 +1,334 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { FlaskConical, Minus, Plus, RotateCcw } from "lucide-react"
+import { ALGORITHM_LABELS, ALGORITHMS, type Algorithm } from "@/lib/classifiers"
+import { FEATURE_IDS, FEATURES, type FeatureId } from "@/lib/features"
+import {
+  ACTIVATIONS,
+  BATCH_SIZES,
+  CV_FOLDS,
+  DEFAULT_TRAINING_CONFIG,
+  describeArchitecture,
+  LEARNING_RATES,
+  OPTIMIZERS,
+  TRAINING_LIMITS,
+  type Activation,
+  type OptimizerName,
+  type TrainingConfig,
+} from "@/lib/training-config"
+
+interface ExperimentPanelProps {
+  config: TrainingConfig
+  onChange: (config: TrainingConfig) => void
+  disabled?: boolean
+}
+
+const labelClass = "text-[8px] sm:text-[10px] md:text-xs text-muted-foreground"
+const triggerClass = "h-5 sm:h-6 md:h-7 w-full text-[8px] sm:text-[10px] md:text-xs"
+
+export function ExperimentPanel({ config, onChange, disabled = false }: ExperimentPanelProps) {
+  const update = (changes: Partial<TrainingConfig>) => onChange({ ...config, ...changes })
+
+  const setLayerCount = (count: number) => {
+    const layers = [...config.hiddenLayers]
+    while (layers.length < count) layers.push(layers[layers.length - 1] ?? 8)
+    update({ hiddenLayers: layers.slice(0, count) })
+  }
+
+  const setLayerUnits = (index: number, units: number) => {
+    update({ hiddenLayers: config.hiddenLayers.map((value, i) => (i === index ? units : value)) })
+  }
+
+  // Inputs stay in registry order so the same selection always means the same model shape
+  const toggleFeature = (id: FeatureId, enabled: boolean) => {
+    const features = FEATURE_IDS.filter((feature) => (feature === id ? enabled : config.features.includes(feature)))
+    if (features.length > 0) update({ features })
+  }
+
+  return (
+    <div className="space-y-1 sm:space-y-2 p-1 sm:p-2 lg:p-3 bg-purple-50 dark:bg-purple-950/20 rounded-lg border border-purple-200 dark:border-purple-800">
+      <div className="flex items-center gap-1 sm:gap-2">
+        <FlaskConical className="h-2 w-2 sm:h-3 sm:w-3 lg:h-4 lg:w-4 text-purple-600" />
+        <span className="text-[9px] sm:text-[11px] md:text-xs font-semibold text-foreground flex-1">Experiment</span>
+        <Badge variant="outline" className="font-mono text-[7px] sm:text-[9px] md:text-[10px] px-1">
+          {describeArchitecture(config)}
+        </Badge>
+      </div>
+
+      <div className="space-y-0.5">
+        <span className={labelClass}>Inputs: {config.features.length}</span>
+        <div className="grid grid-cols-2 gap-x-1 gap-y-0.5">
+          {FEATURE_IDS.map((id) => (
+            <label
+              key={id}
+              title={FEATURES[id].description}
+              className="flex items-center gap-1 text-[8px] sm:text-[10px] md:text-xs cursor-pointer"
+            >
+              <Checkbox
+                checked={config.features.includes(id)}
+                disabled={disabled || (config.features.length === 1 && config.features.includes(id))}
+                onCheckedChange={(checked) => toggleFeature(id, checked === true)}
+                className="size-3 sm:size-3.5"
+              />
+              <span className="truncate">{FEATURES[id].label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-0.5">
+        <span className={labelClass}>Algorithm</span>
+        <Select
+          value={config.algorithm}
+          disabled={disabled}
+          onValueChange={(value) => update({ algorithm: value as Algorithm })}
+        >
+          <SelectTrigger size="sm" className={triggerClass}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALGORITHMS.map((algorithm) => (
+              <SelectItem key={algorithm} value={algorithm} className="text-[10px] sm:text-xs">
+                {ALGORITHM_LABELS[algorithm]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <label
+        title="Rescale every input to mean 0 and standard deviation 1, learnt from the training split"
+        className="flex items-center gap-1 text-[8px] sm:text-[10px] md:text-xs cursor-pointer"
+      >
+        <Checkbox
+          checked={config.standardize}
+          disabled={disabled}
+          onCheckedChange={(checked) => update({ standardize: checked === true })}
+          className="size-3 sm:size-3.5"
+        />
+        <span>Standardize inputs</span>
+      </label>
+
+      <div className="flex items-center gap-1 sm:gap-2">
+        <span
+          title="Train k times, each time testing on a different set of runs, to see how much the score varies"
+          className={`${labelClass} w-16 sm:w-20 whitespace-nowrap`}
+        >
+          Cross-validate
+        </span>
+        <Select
+          value={String(config.cvFolds)}
+          disabled={disabled}
+          onValueChange={(value) => update({ cvFolds: Number(value) })}
+        >
+          <SelectTrigger size="sm" className={`${triggerClass} flex-1`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CV_FOLDS.map((folds) => (
+              <SelectItem key={folds} value={String(folds)} className="text-[10px] sm:text-xs">
+                {folds === 0 ? "Off" : `${folds} folds`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {config.algorithm === "knn" && (
+        <div className="flex items-center gap-1 sm:gap-2">
+          <span className={`${labelClass} w-16 sm:w-20 whitespace-nowrap`}>Neighbours: {config.knnK}</span>
+          <Slider
+            value={[config.knnK]}
+            min={TRAINING_LIMITS.knnK.min}
+            max={TRAINING_LIMITS.knnK.max}
+            step={TRAINING_LIMITS.knnK.step}
+            disabled={disabled}
+            onValueChange={([value]) => update({ knnK: value })}
+            className="flex-1"
+          />
+        </div>
+      )}
+
+      {config.algorithm === "tree" && (
+        <div className="flex items-center gap-1 sm:gap-2">
+          <span className={`${labelClass} w-16 sm:w-20 whitespace-nowrap`}>Max depth: {config.treeDepth}</span>
+          <Slider
+            value={[config.treeDepth]}
+            min={TRAINING_LIMITS.treeDepth.min}
+            max={TRAINING_LIMITS.treeDepth.max}
+            step={1}
+            disabled={disabled}
+            onValueChange={([value]) => update({ treeDepth: value })}
+            className="flex-1"
+          />
+        </div>
+      )}
+
+      {config.algorithm === "neural" && (
+        <>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Hidden layers: {config.hiddenLayers.length}</span>
+              <div className="flex gap-0.5">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-4 sm:h-5 px-1 min-w-0 bg-transparent"
+                  disabled={disabled || config.hiddenLayers.length <= TRAINING_LIMITS.layers.min}
+                  onClick={() => setLayerCount(config.hiddenLayers.length - 1)}
+                >
+                  <Minus className="h-2 w-2 sm:h-3 sm:w-3" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-4 sm:h-5 px-1 min-w-0 bg-transparent"
+                  disabled={disabled || config.hiddenLayers.length >= TRAINING_LIMITS.layers.max}
+                  onClick={() => setLayerCount(config.hiddenLayers.length + 1)}
+                >
+                  <Plus className="h-2 w-2 sm:h-3 sm:w-3" />
+                </Button>
+              </div>
+            </div>
+            {config.hiddenLayers.map((units, index) => (
+              <div key={index} className="flex items-center gap-1 sm:gap-2">
+                <span className={`${labelClass} w-16 sm:w-20 whitespace-nowrap`}>
+                  Layer {index + 1}: {units}
+                </span>
+                <Slider
+                  value={[units]}
+                  min={TRAINING_LIMITS.units.min}
+                  max={TRAINING_LIMITS.units.max}
+                  step={1}
+                  disabled={disabled}
+                  onValueChange={([value]) => setLayerUnits(index, value)}
+                  className="flex-1"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-1 sm:gap-2">
+            <div className="space-y-0.5">
+              <span className={labelClass}>Activation</span>
+              <Select
+                value={config.activation}
+                disabled={disabled}
+                onValueChange={(value) => update({ activation: value as Activation })}
+              >
+                <SelectTrigger size="sm" className={triggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTIVATIONS.map((activation) => (
+                    <SelectItem key={activation} value={activation} className="text-[10px] sm:text-xs">
+                      {activation}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-0.5">
+              <span className={labelClass}>Optimizer</span>
+              <Select
+                value={config.optimizer}
+                disabled={disabled}
+                onValueChange={(value) => update({ optimizer: value as OptimizerName })}
+              >
+                <SelectTrigger size="sm" className={triggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPTIMIZERS.map((optimizer) => (
+                    <SelectItem key={optimizer} value={optimizer} className="text-[10px] sm:text-xs">
+                      {optimizer}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-0.5">
+              <span className={labelClass}>Learning rate</span>
+              <Select
+                value={String(config.learningRate)}
+                disabled={disabled}
+                onValueChange={(value) => update({ learningRate: Number(value) })}
+              >
+                <SelectTrigger size="sm" className={triggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEARNING_RATES.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)} className="text-[10px] sm:text-xs font-mono">
+                      {rate}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-0.5">
+              <span className={labelClass}>Batch size</span>
+              <Select
+                value={String(config.batchSize)}
+                disabled={disabled}
+                onValueChange={(value) => update({ batchSize: Number(value) })}
+              >
+                <SelectTrigger size="sm" className={triggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BATCH_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)} className="text-[10px] sm:text-xs font-mono">
+                      {size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1 sm:gap-2">
+            <span className={`${labelClass} w-16 sm:w-20 whitespace-nowrap`}>Dropout: {config.dropout.toFixed(2)}</span>
+            <Slider
+              value={[config.dropout]}
+              min={TRAINING_LIMITS.dropout.min}
+              max={TRAINING_LIMITS.dropout.max}
+              step={TRAINING_LIMITS.dropout.step}
+              disabled={disabled}
+              onValueChange={([value]) => update({ dropout: value })}
+              className="flex-1"
+            />
+          </div>
+          <div className="flex items-center gap-1 sm:gap-2">
+            <span className={`${labelClass} w-16 sm:w-20 whitespace-nowrap`}>Epochs: {config.epochs}</span>
+            <Slider
+              value={[config.epochs]}
+              min={TRAINING_LIMITS.epochs.min}
+              max={TRAINING_LIMITS.epochs.max}
+              step={TRAINING_LIMITS.epochs.step}
+              disabled={disabled}
+              onValueChange={([value]) => update({ epochs: value })}
+              className="flex-1"
+            />
+          </div>
+        </>
+      )}
+
+      <Button
+        onClick={() => onChange(DEFAULT_TRAINING_CONFIG)}
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        className="w-full bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+      >
+        <RotateCcw className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+        <span className="truncate">Reset to default network</span>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Star } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { GameEngine } from "@/lib/game-engine"
+import { countRows } from "@/lib/dataset"
+import {
+  compositionTotal,
+  EXPERT_LIBRARY,
+  EXPERT_SHARES,
+  expertShare,
+  LABEL_NOISE_LEVELS,
+  plannedComposition,
+  type ExpertMix,
+  type ExpertShare,
+  type TrainingComposition,
+} from "@/lib/expert-data"
+
+interface ExpertDataDialogProps {
+  gameEngine: GameEngine | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STUDENT_COLOR = "bg-blue-500"
+
+const EXPERT_COLORS = ["bg-purple-500", "bg-amber-500", "bg-red-500", "bg-teal-500"]
+
+const expertColor = (id: string) =>
+  EXPERT_COLORS[EXPERT_LIBRARY.findIndex((expert) => expert.id === id) % EXPERT_COLORS.length]
+
+const percent = (rows: number, total: number) => `${Math.round((rows / Math.max(1, total)) * 100)}%`
+
+function QualityStars({ quality }: { quality: number }) {
+  return (
+    <span className="flex" title={`Quality ${quality} of 5`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`h-3 w-3 ${star <= quality ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"}`}
+        />
+      ))}
+    </span>
+  )
+}
+
+// One stacked bar of where the training rows came from, with a legend
+export function CompositionBar({ composition }: { composition: TrainingComposition }) {
+  const total = compositionTotal(composition)
+  const parts = [
+    { key: "student", label: "Your recording", rows: composition.student, color: STUDENT_COLOR },
+    ...composition.experts.map(({ id, name, rows }) => ({ key: id, label: name, rows, color: expertColor(id) })),
+  ]
+  return (
+    <div className="space-y-1">
+      <div className="flex h-3 w-full overflow-hidden rounded">
+        {parts.map((part) => (
+          <div
+            key={part.key}
+            className={part.color}
+            style={{ width: `${(part.rows / Math.max(1, total)) * 100}%` }}
+            title={`${part.label}: ${part.rows} rows`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[10px] sm:text-xs">
+        {parts.map((part) => (
+          <span key={part.key} className="flex items-center gap-1">
+            <span className={`inline-block h-2 w-2 rounded-sm ${part.color}`} />
+            {part.label}: <span className="font-mono">{part.rows}</span> ({percent(part.rows, total)})
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Which bundled datasets are mixed into the next training run, and how much of each
+export function ExpertDataDialog({ gameEngine, open, onOpenChange }: ExpertDataDialogProps) {
+  const [mix, setMix] = useState<ExpertMix>({})
+  const studentRows = gameEngine ? countRows(gameEngine.dataset) : 0
+
+  // The engine resets the mix when the level changes, so re-read it every time the dialog opens
+  useEffect(() => {
+    if (open && gameEngine) setMix(gameEngine.expertMix)
+  }, [open, gameEngine])
+
+  const setShare = (id: string, change: Partial<ExpertShare>) => {
+    const next = { ...mix, [id]: { ...expertShare(mix, id), ...change } }
+    setMix(next)
+    gameEngine?.setExpertMix(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Expert Data</DialogTitle>
+          <DialogDescription>
+            Mix another player&apos;s recording into your training data. Amounts are relative to your own recording.
+            Swapping some of its labels shows what badly labelled data does to a model.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {EXPERT_LIBRARY.map((expert) => (
+            <div key={expert.id} className="flex items-start gap-2 rounded border p-2 text-[10px] sm:text-xs">
+              <div className="flex-1 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{expert.name}</span>
+                  <QualityStars quality={expert.quality} />
+                </div>
+                <div className="text-muted-foreground">{expert.description}</div>
+              </div>
+              <div className="flex flex-col gap-1">
+                <Select
+                  value={String(expertShare(mix, expert.id).share)}
+                  onValueChange={(value) => setShare(expert.id, { share: Number(value) })}
+                >
+                  <SelectTrigger size="sm" className="h-6 w-32 text-[10px] sm:text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPERT_SHARES.map((share) => (
+                      <SelectItem key={share} value={String(share)} className="text-[10px] sm:text-xs">
+                        {share === 0 ? "Off" : `${share * 100}% of yours`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(expertShare(mix, expert.id).labelNoise)}
+                  onValueChange={(value) => setShare(expert.id, { labelNoise: Number(value) })}
+                  disabled={expertShare(mix, expert.id).share === 0}
+                >
+                  <SelectTrigger size="sm" className="h-6 w-32 text-[10px] sm:text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_NOISE_LEVELS.map(({ value, label }) => (
+                      <SelectItem key={value} value={String(value)} className="text-[10px] sm:text-xs">
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-[10px] sm:text-xs font-semibold">Next training set</div>
+          <CompositionBar composition={plannedComposition(mix, studentRows)} />
+          <div className="text-[9px] sm:text-[10px] text-muted-foreground">
+            A dataset smaller than the amount asked for adds all it has. The model report shows what was actually used.
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
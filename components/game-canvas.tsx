@@ -2,8 +2,12 @@
 
 import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
-import { GameEngine, type GameState } from "@/lib/game-engine"
-import { Play, Pause } from "lucide-react"
+import { GameEngine, type CrowdStatus, type GameState, type ReplayStatus } from "@/lib/game-engine"
+import type { Replay } from "@/lib/replay"
+import { ReplayControls } from "@/components/replay-controls"
+import { CrowdResults } from "@/components/crowd-results"
+import { DecisionAttribution } from "@/components/decision-attribution"
+import { Play, Pause, Film, Layers } from "lucide-react"
 import type { Level } from "@/app/page"
 
 interface GameCanvasProps {
@@ -16,6 +20,7 @@ interface GameCanvasProps {
   currentScore: number
   currentLevel: Level
   isPaused?: boolean
+  isAI?: boolean
 }
 
 export function GameCanvas({
@@ -28,12 +33,19 @@ export function GameCanvas({
   currentScore,
   currentLevel,
   isPaused = false,
+  isAI = false,
 }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const gameEngineRef = useRef<GameEngine | null>(null)
   const [score, setScore] = useState(0)
   const [gameState, setGameState] = useState<GameState>("menu")
   const [showGameOverTransition, setShowGameOverTransition] = useState(false)
+  const [seed, setSeed] = useState<number | null>(null)
+  const [replays, setReplays] = useState<Replay[]>([])
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null)
+  const [aiLatency, setAILatency] = useState<number | null>(null)
+  const [crowdStatus, setCrowdStatus] = useState<CrowdStatus | null>(null)
+  const [showModelView, setShowModelView] = useState(false)
 
   useEffect(() => {
     if (canvasRef.current && !gameEngineRef.current) {
@@ -62,6 +74,16 @@ export function GameCanvas({
 
       engine.onHighScoreUpdate = onHighScoreUpdate
 
+      engine.onSeedChange = setSeed
+
+      engine.onReplaysUpdate = setReplays
+
+      engine.onReplayStatusChange = setReplayStatus
+
+      engine.onAILatencyUpdate = setAILatency
+
+      engine.onCrowdStatusChange = setCrowdStatus
+
       gameEngineRef.current = engine
       onGameEngineReady(engine)
     }
@@ -78,6 +100,17 @@ export function GameCanvas({
     gameEngineRef.current?.startGame()
   }
 
+  const handleWatchReplayClick = () => {
+    if (replays.length > 0) {
+      gameEngineRef.current?.startReplay(replays[0])
+    }
+  }
+
+  const handleToggleModelView = () => {
+    gameEngineRef.current?.setDecisionBoundaryVisible(!showModelView)
+    setShowModelView(!showModelView)
+  }
+
   const handleResetClick = () => {
     if (gameEngineRef.current) {
       gameEngineRef.current.state = "menu"
@@ -100,12 +133,44 @@ export function GameCanvas({
         tabIndex={0}
       />
 
-      {gameState === "playing" && (
+      {(gameState === "playing" || replayStatus) && (
         <div className="absolute top-2 lg:top-4 left-1/2 transform -translate-x-1/2 bg-black/50 backdrop-blur-sm rounded-lg px-2 lg:px-3 py-1 lg:py-2">
           <div className="text-white font-mono text-lg lg:text-xl font-bold">{currentScore}</div>
         </div>
       )}
 
+      {isAI && aiLatency !== null && gameState === "playing" && (
+        <div
+          className="absolute top-2 right-2 bg-black/40 rounded px-1.5 py-0.5 text-white font-mono text-[8px] sm:text-[10px]"
+          title="Time the model takes to decide. Decisions are made every 100ms of game time and applied on the next tick."
+        >
+          AI {aiLatency.toFixed(2)} ms
+        </div>
+      )}
+
+      {isAI && gameState === "playing" && !replayStatus && (
+        <Button
+          onClick={handleToggleModelView}
+          variant={showModelView ? "default" : "outline"}
+          size="sm"
+          className="absolute top-2 left-2 h-5 sm:h-6 px-1.5 text-[8px] sm:text-[10px] bg-black/40 text-white border-white/30 hover:bg-black/60"
+          title="Colour the screen by where the model would jump, holding speed and pipes at their current values"
+        >
+          <Layers className="h-2 w-2 sm:h-3 sm:w-3 mr-0.5" />
+          {showModelView ? "Hide model view" : "Model view"}
+        </Button>
+      )}
+
+      {isAI && gameState === "playing" && !replayStatus && gameEngineRef.current && (
+        <DecisionAttribution gameEngine={gameEngineRef.current} />
+      )}
+
+      {seed !== null && gameState !== "menu" && !replayStatus && !crowdStatus && (
+        <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 bg-black/40 rounded px-1.5 py-0.5 text-white font-mono text-[8px] sm:text-[10px]">
+          Seed {seed}
+        </div>
+      )}
+
       {/* Pause Overlay */}
       {isPaused && gameState === "playing" && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-sm rounded-lg">
@@ -119,8 +184,14 @@ export function GameCanvas({
         </div>
       )}
 
+      {replayStatus && gameEngineRef.current && (
+        <ReplayControls gameEngine={gameEngineRef.current} status={replayStatus} replays={replays} />
+      )}
+
+      {crowdStatus && gameEngineRef.current && <CrowdResults gameEngine={gameEngineRef.current} status={crowdStatus} />}
+
       {/* Game Overlay */}
-      {(gameState === "menu" || gameState === "dead") && (
+      {(gameState === "menu" || gameState === "dead") && !replayStatus && !crowdStatus && (
         <div
           className={`absolute inset-0 flex items-center justify-center transition-all duration-300 rounded-lg ${
             showGameOverTransition ? "animate-in fade-in slide-in-from-top-4" : ""
@@ -155,6 +226,19 @@ export function GameCanvas({
                 </Button>
               </div>
 
+              {replays.length > 0 && (
+                <div className="flex justify-center">
+                  <Button
+                    onClick={handleWatchReplayClick}
+                    variant="outline"
+                    className="px-2 sm:px-3 md:px-4 text-[8px] sm:text-[10px] md:text-xs py-1 min-w-0 h-auto bg-transparent"
+                  >
+                    <Film className="h-2 w-2 sm:h-3 sm:w-3 mr-1" />
+                    <span className="truncate">Watch Replay</span>
+                  </Button>
+                </div>
+              )}
+
               <p className="text-[7px] sm:text-[8px] md:text-[10px] lg:text-xs text-muted-foreground">
                 Press{" "}
                 <kbd className="px-0.5 py-0.5 bg-muted text-muted-foreground rounded text-[7px] sm:text-[8px] md:text-[10px]">
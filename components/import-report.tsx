@@ -0,0 +1,88 @@
+"use client"
+
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { ImportReport } from "@/lib/dataset-file"
+
+interface ImportReportDialogProps {
+  report: ImportReport | null
+  onOpenChange: (open: boolean) => void
+}
+
+// A file with thousands of bad lines would make the dialog unusable; the first ones show the pattern
+const MAX_SKIPPED_SHOWN = 50
+
+// What an uploaded file contributed: rows and runs added, what was migrated or rescaled, and each skipped line
+export function ImportReportDialog({ report, onOpenChange }: ImportReportDialogProps) {
+  const clean = report?.ok && report.skipped.length === 0 && report.warnings.length === 0
+  const { icon: Icon, className } = !report?.ok
+    ? { icon: XCircle, className: "text-red-600" }
+    : clean
+      ? { icon: CheckCircle2, className: "text-green-600" }
+      : { icon: AlertTriangle, className: "text-amber-500" }
+
+  return (
+    <Dialog open={report !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon className={`h-5 w-5 ${className}`} />
+            {report?.ok ? "Data imported" : "Import failed"}
+          </DialogTitle>
+          <DialogDescription>{report?.fileName}</DialogDescription>
+        </DialogHeader>
+        {report && (
+          <div className="space-y-3 text-[10px] sm:text-xs">
+            {report.ok ? (
+              <div>
+                Added <span className="font-semibold">{report.rows}</span> rows in{" "}
+                <span className="font-semibold">{report.episodes}</span> run{report.episodes === 1 ? "" : "s"}{" "}
+                (file schema {report.schemaVersion}).
+              </div>
+            ) : (
+              <div className="text-red-600">{report.error}</div>
+            )}
+
+            {report.warnings.length > 0 && (
+              <ul className="list-disc space-y-0.5 pl-4 text-muted-foreground">
+                {report.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            {report.skipped.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-semibold">
+                  {report.skipped.length} line{report.skipped.length === 1 ? "" : "s"} skipped
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="h-6 px-1">Where</TableHead>
+                      <TableHead className="h-6 px-1">Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.skipped.slice(0, MAX_SKIPPED_SHOWN).map((issue) => (
+                      <TableRow key={issue.location}>
+                        <TableCell className="px-1 py-0.5 whitespace-nowrap">{issue.location}</TableCell>
+                        <TableCell className="px-1 py-0.5">{issue.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {report.skipped.length > MAX_SKIPPED_SHOWN && (
+                  <div className="text-muted-foreground">
+                    …and {report.skipped.length - MAX_SKIPPED_SHOWN} more. Open the file in a text editor to fix them.
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import type { NameType, Payload, ValueType } from "recharts/types/component/DefaultTooltipContent"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { EpochMetrics } from "@/lib/ml-trainer"
+
+interface LearningCurveChartProps {
+  history: EpochMetrics[]
+  totalEpochs?: number
+}
+
+const lossConfig = {
+  loss: { label: "Training loss", color: "#2563eb" },
+  valLoss: { label: "Validation loss", color: "#f97316" },
+} satisfies ChartConfig
+
+const accuracyConfig = {
+  accuracy: { label: "Training accuracy", color: "#2563eb" },
+  valAccuracy: { label: "Validation accuracy", color: "#f97316" },
+} satisfies ChartConfig
+
+const formatEpochLabel = (_: unknown, payload: readonly Payload<ValueType, NameType>[]) =>
+  `Epoch ${payload?.[0]?.payload?.epoch}`
+
+// Train vs validation curves side by side: a growing gap between the two lines is
+// overfitting, two lines that stay high (loss) or low (accuracy) is underfitting
+export function LearningCurveChart({ history, totalEpochs }: LearningCurveChartProps) {
+  if (history.length === 0) return null
+
+  const last = history[history.length - 1]
+  const gap = last.valLoss - last.loss
+  const xDomain: [number, number] = [1, Math.max(totalEpochs ?? last.epoch, 2)]
+
+  return (
+    <div className="space-y-1 sm:space-y-2 p-1 sm:p-2 bg-background/60 rounded-lg border">
+      <div className="flex items-center justify-between text-[8px] sm:text-[10px] md:text-xs">
+        <span className="font-semibold text-foreground">Learning Curves</span>
+        <span className="flex items-center gap-1 sm:gap-2 text-muted-foreground">
+          <span className="flex items-center gap-0.5">
+            <span className="h-1.5 w-1.5 rounded-full bg-[#2563eb]" />
+            train
+          </span>
+          <span className="flex items-center gap-0.5">
+            <span className="h-1.5 w-1.5 rounded-full bg-[#f97316]" />
+            validation
+          </span>
+        </span>
+        <span className="font-mono text-muted-foreground">
+          epoch {last.epoch} · gap {gap >= 0 ? "+" : ""}
+          {gap.toFixed(3)}
+        </span>
+      </div>
+
+      <ChartContainer config={lossConfig} className="aspect-auto h-28 sm:h-32 w-full">
+        <LineChart data={history} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="epoch" type="number" domain={xDomain} tickLine={false} fontSize={9} />
+          <YAxis tickLine={false} fontSize={9} domain={[0, "auto"]} tickFormatter={(value) => value.toFixed(2)} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={formatEpochLabel} />} />
+          <Line dataKey="loss" stroke="var(--color-loss)" dot={false} strokeWidth={2} isAnimationActive={false} />
+          <Line dataKey="valLoss" stroke="var(--color-valLoss)" dot={false} strokeWidth={2} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+
+      <ChartContainer config={accuracyConfig} className="aspect-auto h-28 sm:h-32 w-full">
+        <LineChart data={history} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="epoch" type="number" domain={xDomain} tickLine={false} fontSize={9} />
+          <YAxis
+            tickLine={false}
+            fontSize={9}
+            domain={[0, 1]}
+            tickFormatter={(value) => `${Math.round(value * 100)}%`}
+          />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={formatEpochLabel} />} />
+          <Line dataKey="accuracy" stroke="var(--color-accuracy)" dot={false} strokeWidth={2} isAnimationActive={false} />
+          <Line
+            dataKey="valAccuracy"
+            stroke="var(--color-valAccuracy)"
+            dot={false}
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  )
+}
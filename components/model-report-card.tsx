@@ -0,0 +1,285 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { AlertTriangle } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import type { NameType, Payload, ValueType } from "recharts/types/component/DefaultTooltipContent"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { CompositionBar } from "@/components/expert-data"
+import { CV_METRICS, type CrossValidationReport, type CvMetric } from "@/lib/cross-validation"
+import type { EvaluationReport } from "@/lib/evaluation"
+import type { ModelInsights } from "@/lib/importance"
+
+interface ModelReportCardProps {
+  report: EvaluationReport | null
+  insights?: ModelInsights | null
+  featureLabels?: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const rocConfig = {
+  tpr: { label: "True positive rate", color: "#2563eb" },
+} satisfies ChartConfig
+
+const prConfig = {
+  precision: { label: "Precision", color: "#16a34a" },
+} satisfies ChartConfig
+
+const foldConfig = {
+  accuracy: { label: "Accuracy", color: "#2563eb" },
+  f1: { label: "F1 score", color: "#f97316" },
+} satisfies ChartConfig
+
+const CV_METRIC_NAMES: Record<CvMetric, string> = {
+  accuracy: "Accuracy",
+  precision: "Precision",
+  recall: "Recall",
+  f1: "F1 score",
+  rocAuc: "ROC AUC",
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const formatThresholdLabel = (_: unknown, payload: readonly Payload<ValueType, NameType>[]) =>
+  `Threshold ${Number(payload?.[0]?.payload?.threshold ?? 0).toFixed(2)}`
+
+function MatrixCell({ label, value, good }: { label: string; value: number; good: boolean }) {
+  return (
+    <div
+      className={`flex flex-col items-center justify-center rounded p-2 ${
+        good ? "bg-green-100 dark:bg-green-950/40" : "bg-red-100 dark:bg-red-950/40"
+      }`}
+    >
+      <span className="font-mono text-base sm:text-lg font-bold">{value}</span>
+      <span className="text-[9px] sm:text-[10px] text-muted-foreground">{label}</span>
+    </div>
+  )
+}
+
+function MetricRow({ name, value, hint }: { name: string; value: string; hint: string }) {
+  return (
+    <div className="flex items-baseline justify-between gap-2 text-[10px] sm:text-xs">
+      <span>
+        <span className="font-semibold">{name}</span> <span className="text-muted-foreground">{hint}</span>
+      </span>
+      <span className="font-mono">{value}</span>
+    </div>
+  )
+}
+
+// Permutation importance: how much test accuracy falls when one input is scrambled
+function ImportanceBars({ insights, labels }: { insights: ModelInsights; labels: string[] }) {
+  const largest = Math.max(...insights.importance.map(({ drop }) => drop), 0.01)
+  const sorted = [...insights.importance].sort((a, b) => b.drop - a.drop)
+
+  return (
+    <div className="space-y-1 sm:col-span-2">
+      <div className="text-xs font-semibold">What the model relies on</div>
+      {sorted.map(({ feature, drop }) => (
+        <div key={feature} className="grid grid-cols-[7rem_1fr_3.5rem] items-center gap-2 text-[10px] sm:text-xs">
+          <span>{labels[feature] ?? `Input ${feature + 1}`}</span>
+          <div className="h-3 rounded bg-muted">
+            <div className="h-full rounded bg-amber-500" style={{ width: `${(Math.max(0, drop) / largest) * 100}%` }} />
+          </div>
+          <span className="text-right font-mono">-{formatPercent(Math.max(0, drop))}</span>
+        </div>
+      ))}
+      <div className="text-[9px] sm:text-[10px] text-muted-foreground">
+        Accuracy lost when that input is shuffled between frames. A bar near zero means the model ignores it.
+      </div>
+    </div>
+  )
+}
+
+// Too few runs to keep whole ones apart: the test frames have near copies in training, so scores read high
+function SplitByRowWarning({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex items-start gap-1 text-[9px] sm:text-[10px] text-amber-600">
+      <AlertTriangle className="h-3 w-3 shrink-0" />
+      <span>{children}</span>
+    </div>
+  )
+}
+
+// k-fold cross-validation: the same settings trained k times, each tested on runs the others trained on.
+// The spread is the point; a single test split is just one draw from it.
+function CrossValidationSection({
+  report,
+  holdoutAccuracy,
+}: {
+  report: CrossValidationReport
+  holdoutAccuracy: number
+}) {
+  const { accuracy } = report.summary
+  const data = report.folds.map(({ fold, metrics }) => ({
+    fold: `Fold ${fold}`,
+    accuracy: metrics.accuracy,
+    f1: metrics.f1,
+  }))
+
+  return (
+    <div className="space-y-1 sm:col-span-2">
+      <div className="text-xs font-semibold">
+        {report.k}-fold cross-validation{" "}
+        <span className="font-normal text-muted-foreground">
+          ({report.byRow ? "split frame by frame" : `split by ${report.groups} runs`})
+        </span>
+      </div>
+      {report.byRow && (
+        <SplitByRowWarning>
+          Only {report.groups} runs for {report.k} folds, so each fold was tested on frames whose neighbours it trained
+          on. Record more runs for a fair comparison.
+        </SplitByRowWarning>
+      )}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-0.5">
+          {CV_METRICS.map((metric) => {
+            const { mean, std, min, max } = report.summary[metric]
+            const format = metric === "f1" || metric === "rocAuc" ? (v: number) => v.toFixed(3) : formatPercent
+            return (
+              <MetricRow
+                key={metric}
+                name={CV_METRIC_NAMES[metric]}
+                hint={`${format(min)} – ${format(max)}`}
+                value={`${format(mean)} ± ${format(std)}`}
+              />
+            )
+          })}
+        </div>
+        <ChartContainer config={foldConfig} className="h-32 w-full">
+          <BarChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="fold" tickLine={false} fontSize={9} />
+            <YAxis type="number" domain={[0, 1]} tickLine={false} fontSize={9} />
+            <ReferenceLine y={accuracy.mean} stroke="#2563eb" strokeDasharray="4 4" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="accuracy" fill="var(--color-accuracy)" isAnimationActive={false} />
+            <Bar dataKey="f1" fill="var(--color-f1)" isAnimationActive={false} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+      <div className="text-[9px] sm:text-[10px] text-muted-foreground">
+        The single test split above scored {formatPercent(holdoutAccuracy)}; across folds accuracy ranged from{" "}
+        {formatPercent(accuracy.min)} to {formatPercent(accuracy.max)}. If that range is wide, one validation number
+        says more about which runs ended up in the test set than about the model.
+      </div>
+    </div>
+  )
+}
+
+// Shown after training: how the model did on the held-out test split, in the terms
+// teachers grade (confusion matrix, precision/recall) plus the threshold-free curves
+export function ModelReportCard({ report, insights, featureLabels = [], open, onOpenChange }: ModelReportCardProps) {
+  if (!report) return null
+
+  const { confusion, metrics } = report
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Model Report Card</DialogTitle>
+          <DialogDescription>
+            Tested on {report.sampleCount} frames the model never saw during training ({report.positives} jumps,{" "}
+            {report.negatives} no-jumps). A jump is predicted when the output is above {metrics.threshold}.
+          </DialogDescription>
+          {report.splitByRow && (
+            <SplitByRowWarning>
+              There were too few runs to hold whole ones out, so the test frames were picked one by one and their
+              neighbours were trained on. These scores read higher than the model deserves; record more runs.
+            </SplitByRowWarning>
+          )}
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <div className="text-xs font-semibold">Confusion Matrix</div>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-1 text-[9px] sm:text-[10px]">
+              <span />
+              <span className="text-center text-muted-foreground">Predicted jump</span>
+              <span className="text-center text-muted-foreground">Predicted no jump</span>
+              <span className="self-center text-right text-muted-foreground">Actual jump</span>
+              <MatrixCell label="true positive" value={confusion.tp} good />
+              <MatrixCell label="false negative" value={confusion.fn} good={false} />
+              <span className="self-center text-right text-muted-foreground">Actual no jump</span>
+              <MatrixCell label="false positive" value={confusion.fp} good={false} />
+              <MatrixCell label="true negative" value={confusion.tn} good />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs font-semibold">Metrics</div>
+            <MetricRow name="Accuracy" hint="right overall" value={formatPercent(metrics.accuracy)} />
+            <MetricRow name="Precision" hint="predicted jumps that were real" value={formatPercent(metrics.precision)} />
+            <MetricRow name="Recall" hint="real jumps that were caught" value={formatPercent(metrics.recall)} />
+            <MetricRow
+              name="Specificity"
+              hint="no-jumps correctly left alone"
+              value={formatPercent(metrics.specificity)}
+            />
+            <MetricRow name="F1 score" hint="balance of precision and recall" value={metrics.f1.toFixed(3)} />
+            <MetricRow name="ROC AUC" hint="0.5 is guessing, 1 is perfect" value={report.rocAuc.toFixed(3)} />
+            <MetricRow name="PR AUC" hint="average precision" value={report.prAuc.toFixed(3)} />
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs font-semibold">ROC Curve</div>
+            <ChartContainer config={rocConfig} className="aspect-square h-44 w-full">
+              <LineChart data={report.roc} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                <CartesianGrid />
+                <XAxis dataKey="fpr" type="number" domain={[0, 1]} tickLine={false} fontSize={9} />
+                <YAxis type="number" domain={[0, 1]} tickLine={false} fontSize={9} />
+                <ReferenceLine
+                  segment={[
+                    { x: 0, y: 0 },
+                    { x: 1, y: 1 },
+                  ]}
+                  stroke="#9ca3af"
+                  strokeDasharray="4 4"
+                />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatThresholdLabel} />} />
+                <Line dataKey="tpr" stroke="var(--color-tpr)" dot={false} strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+            <div className="text-center text-[9px] text-muted-foreground">false positive rate →</div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs font-semibold">Precision / Recall Curve</div>
+            <ChartContainer config={prConfig} className="aspect-square h-44 w-full">
+              <LineChart data={report.pr} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                <CartesianGrid />
+                <XAxis dataKey="recall" type="number" domain={[0, 1]} tickLine={false} fontSize={9} />
+                <YAxis type="number" domain={[0, 1]} tickLine={false} fontSize={9} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatThresholdLabel} />} />
+                <Line
+                  dataKey="precision"
+                  stroke="var(--color-precision)"
+                  dot={false}
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+            <div className="text-center text-[9px] text-muted-foreground">recall →</div>
+          </div>
+
+          {report.composition && (
+            <div className="space-y-1 sm:col-span-2">
+              <div className="text-xs font-semibold">Training Data</div>
+              <CompositionBar composition={report.composition} />
+            </div>
+          )}
+
+          {report.crossValidation && (
+            <CrossValidationSection report={report.crossValidation} holdoutAccuracy={metrics.accuracy} />
+          )}
+
+          {insights && <ImportanceBars insights={insights} labels={featureLabels} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,241 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Check, Download, FolderOpen, Pencil, Swords, Trash2, Upload } from "lucide-react"
+import type { GameEngine } from "@/lib/game-engine"
+import type { SavedModelMeta } from "@/lib/model-store"
+
+interface MyModelsProps {
+  gameEngine: GameEngine | null
+  disabled?: boolean
+  onModelLoaded?: (meta: SavedModelMeta) => void
+}
+
+const levelBadges: Record<SavedModelMeta["level"], string> = {
+  finetuning: "L1",
+  underfitting: "L2",
+  overfitting: "L3",
+}
+
+const smallButtonClass = "h-4 sm:h-5 px-1 min-w-0 bg-transparent"
+const iconClass = "h-2 w-2 sm:h-3 sm:w-3"
+
+export function MyModels({ gameEngine, disabled = false, onModelLoaded }: MyModelsProps) {
+  const [models, setModels] = useState<SavedModelMeta[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState("")
+  const [arenaIds, setArenaIds] = useState<string[]>([])
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!gameEngine) return
+    setModels(gameEngine.getSavedModels())
+    setActiveId(gameEngine.savedModelId)
+    gameEngine.onSavedModelsUpdate = (updated) => {
+      setModels(updated)
+      setActiveId(gameEngine.savedModelId)
+      setArenaIds((ids) => ids.filter((id) => updated.some((model) => model.id === id)))
+    }
+    return () => {
+      gameEngine.onSavedModelsUpdate = undefined
+    }
+  }, [gameEngine])
+
+  const handleLoad = async (id: string) => {
+    if (!gameEngine) return
+    try {
+      const meta = await gameEngine.loadSavedModel(id)
+      setActiveId(meta.id)
+      onModelLoaded?.(meta)
+    } catch (error) {
+      console.error("Model load failed:", error)
+      alert("Could not load model: " + (error as Error).message)
+    }
+  }
+
+  const handleStartRename = (model: SavedModelMeta) => {
+    setEditingId(model.id)
+    setDraftName(model.name)
+  }
+
+  const handleFinishRename = () => {
+    if (editingId && draftName.trim()) gameEngine?.renameSavedModel(editingId, draftName.trim())
+    setEditingId(null)
+  }
+
+  const handleDelete = async (model: SavedModelMeta) => {
+    if (!confirm(`Delete "${model.name}"? This cannot be undone.`)) return
+    try {
+      await gameEngine?.deleteSavedModel(model.id)
+    } catch (error) {
+      console.error("Model delete failed:", error)
+    }
+  }
+
+  const handleExport = async (id: string) => {
+    try {
+      await gameEngine?.downloadSavedModel(id)
+    } catch (error) {
+      console.error("Model export failed:", error)
+      alert("Could not export model: " + (error as Error).message)
+    }
+  }
+
+  const handleToggleArena = (id: string, checked: boolean) => {
+    setArenaIds((ids) => (checked ? [...ids, id] : ids.filter((selected) => selected !== id)))
+  }
+
+  const handleStartArena = async () => {
+    try {
+      await gameEngine?.startArena(arenaIds)
+    } catch (error) {
+      console.error("Arena failed to start:", error)
+      alert("Could not start the arena: " + (error as Error).message)
+    }
+  }
+
+  const handleImportChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file && gameEngine) {
+      try {
+        await gameEngine.importModelFile(file)
+      } catch (error) {
+        console.error("Model import failed:", error)
+        alert("Could not import model: " + (error as Error).message)
+      }
+    }
+    event.target.value = ""
+  }
+
+  return (
+    <div className="space-y-1 sm:space-y-2 p-1 sm:p-2 lg:p-3 bg-emerald-50 dark:bg-emerald-950/20 rounded-lg border border-emerald-200 dark:border-emerald-800">
+      <div className="flex items-center gap-1 sm:gap-2">
+        <FolderOpen className="h-2 w-2 sm:h-3 sm:w-3 lg:h-4 lg:w-4 text-emerald-600" />
+        <span className="text-[9px] sm:text-[11px] md:text-xs font-semibold text-foreground flex-1">My Models</span>
+        <Button
+          onClick={() => importInputRef.current?.click()}
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          title="Import a model .zip"
+          className={smallButtonClass}
+        >
+          <Upload className={iconClass} />
+        </Button>
+        <input ref={importInputRef} type="file" accept=".zip" onChange={handleImportChange} className="hidden" />
+      </div>
+
+      {models.length === 0 ? (
+        <div className="text-[7px] sm:text-[9px] md:text-[10px] text-center text-muted-foreground">
+          Trained models are saved here automatically
+        </div>
+      ) : (
+        <div className="space-y-0.5 max-h-32 overflow-y-auto">
+          {models.map((model) => (
+            <div
+              key={model.id}
+              className={`flex items-center gap-0.5 sm:gap-1 rounded px-1 py-0.5 text-[8px] sm:text-[10px] md:text-xs ${
+                model.id === activeId ? "bg-emerald-100 dark:bg-emerald-900/40" : ""
+              }`}
+            >
+              <Checkbox
+                checked={arenaIds.includes(model.id)}
+                onCheckedChange={(checked) => handleToggleArena(model.id, checked === true)}
+                title="Compare in the arena"
+                className="size-3 sm:size-3.5"
+              />
+              <Badge variant="outline" className="font-mono text-[7px] sm:text-[9px] px-1">
+                {levelBadges[model.level]}
+              </Badge>
+              {editingId === model.id ? (
+                <Input
+                  value={draftName}
+                  autoFocus
+                  onChange={(event) => setDraftName(event.target.value)}
+                  onBlur={handleFinishRename}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") handleFinishRename()
+                    if (event.key === "Escape") setEditingId(null)
+                  }}
+                  className="h-4 sm:h-5 flex-1 px-1 text-[8px] sm:text-[10px] md:text-xs"
+                />
+              ) : (
+                <span
+                  className="flex-1 truncate"
+                  title={`${model.datasetSize} rows · data ${model.datasetFingerprint} · ${new Date(model.savedAt).toLocaleString()}`}
+                >
+                  {model.name}
+                </span>
+              )}
+              {editingId === model.id ? (
+                <Button onClick={handleFinishRename} variant="outline" size="sm" className={smallButtonClass}>
+                  <Check className={iconClass} />
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => handleStartRename(model)}
+                  variant="outline"
+                  size="sm"
+                  title="Rename"
+                  className={smallButtonClass}
+                >
+                  <Pencil className={iconClass} />
+                </Button>
+              )}
+              <Button
+                onClick={() => handleLoad(model.id)}
+                variant="outline"
+                size="sm"
+                disabled={disabled}
+                className={`${smallButtonClass} text-[7px] sm:text-[9px]`}
+              >
+                Load
+              </Button>
+              <Button
+                onClick={() => handleExport(model.id)}
+                variant="outline"
+                size="sm"
+                title="Export as .zip"
+                className={smallButtonClass}
+              >
+                <Download className={iconClass} />
+              </Button>
+              <Button
+                onClick={() => handleDelete(model)}
+                variant="outline"
+                size="sm"
+                disabled={disabled}
+                title="Delete"
+                className={smallButtonClass}
+              >
+                <Trash2 className={iconClass} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {models.length >= 2 && (
+        <Button
+          onClick={handleStartArena}
+          variant="outline"
+          size="sm"
+          disabled={disabled || arenaIds.length < 2}
+          className="w-full bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+        >
+          <Swords className="h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5" />
+          <span className="truncate">
+            {arenaIds.length < 2 ? "Tick two or more models to compare" : `Race ${arenaIds.length} models in the Arena`}
+          </span>
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Play, Pause, Download, X } from "lucide-react"
+import type { GameEngine, ReplayStatus } from "@/lib/game-engine"
+import { describeReplay, REPLAY_SPEEDS, type Replay } from "@/lib/replay"
+import { TICKS_PER_SECOND } from "@/lib/simulation"
+
+interface ReplayControlsProps {
+  gameEngine: GameEngine
+  status: ReplayStatus
+  replays: Replay[]
+}
+
+const formatTicks = (ticks: number) => `${(ticks / TICKS_PER_SECOND).toFixed(1)}s`
+
+export function ReplayControls({ gameEngine, status, replays }: ReplayControlsProps) {
+  const handleSelectReplay = (id: string) => {
+    const replay = replays.find((candidate) => candidate.id === id)
+    if (replay) gameEngine.startReplay(replay)
+  }
+
+  return (
+    <div className="absolute bottom-2 left-2 right-2 bg-card/95 backdrop-blur-sm shadow-xl rounded-lg border border-border p-1.5 sm:p-2 space-y-1 sm:space-y-2">
+      <div className="flex items-center gap-1 sm:gap-2">
+        <Button
+          onClick={() => gameEngine.toggleReplayPause()}
+          variant="outline"
+          size="sm"
+          className="h-5 sm:h-6 md:h-7 px-1 sm:px-2 min-w-0 bg-transparent"
+          title={status.paused ? "Play" : "Pause"}
+        >
+          {status.paused ? <Play className="h-2 w-2 sm:h-3 sm:w-3" /> : <Pause className="h-2 w-2 sm:h-3 sm:w-3" />}
+        </Button>
+        <Slider
+          value={[status.tick]}
+          min={0}
+          max={status.totalTicks}
+          step={1}
+          onValueChange={([tick]) => gameEngine.seekReplay(tick)}
+          className="flex-1"
+        />
+        <span className="font-mono text-[8px] sm:text-[10px] md:text-xs text-muted-foreground whitespace-nowrap">
+          {formatTicks(status.tick)} / {formatTicks(status.totalTicks)}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-1 sm:gap-2">
+        <Select value={String(status.speed)} onValueChange={(value) => gameEngine.setReplaySpeed(Number(value))}>
+          <SelectTrigger size="sm" className="h-5 sm:h-6 md:h-7 w-16 sm:w-20 text-[8px] sm:text-[10px] md:text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_SPEEDS.map((speed) => (
+              <SelectItem key={speed} value={String(speed)} className="text-[10px] sm:text-xs">
+                {speed}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status.replay.id} onValueChange={handleSelectReplay}>
+          <SelectTrigger size="sm" className="h-5 sm:h-6 md:h-7 flex-1 min-w-0 text-[8px] sm:text-[10px] md:text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {replays.map((replay) => (
+              <SelectItem key={replay.id} value={replay.id} className="text-[10px] sm:text-xs">
+                {describeReplay(replay)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => gameEngine.downloadReplay(status.replay)}
+          variant="outline"
+          size="sm"
+          className="h-5 sm:h-6 md:h-7 px-1 sm:px-2 min-w-0 bg-transparent"
+          title="Download replay"
+        >
+          <Download className="h-2 w-2 sm:h-3 sm:w-3" />
+        </Button>
+        <Button
+          onClick={() => gameEngine.stopReplay()}
+          variant="outline"
+          size="sm"
+          className="h-5 sm:h-6 md:h-7 px-1 sm:px-2 min-w-0 bg-transparent"
+          title="Close replay"
+        >
+          <X className="h-2 w-2 sm:h-3 sm:w-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
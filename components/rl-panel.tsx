@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import type { NameType, Payload, ValueType } from "recharts/types/component/DefaultTooltipContent"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Eye, Gamepad2, Play, RotateCcw, Square } from "lucide-react"
+import type { GameEngine, RLStatus } from "@/lib/game-engine"
+import { defaultRLConfig, type AgentKind, type QHeatmap } from "@/lib/reinforcement"
+
+interface RLPanelProps {
+  gameEngine: GameEngine | null
+  disabled?: boolean
+}
+
+const EPISODES_PER_RUN: Record<AgentKind, number> = { tabular: 500, dqn: 50 }
+
+// Thousands of episodes would make the chart sluggish, so it shows at most this many points
+const MAX_CHART_POINTS = 300
+
+const rewardConfig = {
+  avgReward: { label: "Reward (avg of 20)", color: "#2563eb" },
+  epsilon: { label: "Epsilon", color: "#f97316" },
+} satisfies ChartConfig
+
+const agentLabels: Record<AgentKind, string> = { tabular: "Q-table", dqn: "DQN" }
+
+const buttonClass = "flex-1 bg-transparent text-[7px] sm:text-[9px] md:text-[10px] py-0.5 sm:py-1 h-4 sm:h-5 md:h-6 min-w-0"
+const iconClass = "h-1.5 w-1.5 sm:h-2.5 sm:w-2.5 mr-0.5"
+
+const formatEpisodeLabel = (_: unknown, payload: readonly Payload<ValueType, NameType>[]) =>
+  `Episode ${payload?.[0]?.payload?.episode}`
+
+// Rows are bird height (top of the screen first), columns where the next gap is relative to the bird.
+// Colour is how good the agent thinks the situation is; ↑ marks where it would jump.
+function QValueHeatmap({ heatmap }: { heatmap: QHeatmap }) {
+  const visitedValues = heatmap.values.flatMap((row, y) => row.filter((_, o) => heatmap.visited[y][o]))
+  const min = Math.min(...visitedValues)
+  const max = Math.max(...visitedValues)
+
+  return (
+    <div className="space-y-0.5">
+      <div className="text-[8px] sm:text-[10px] font-semibold">Q-values: bird height × gap offset</div>
+      <div className="grid gap-px" style={{ gridTemplateColumns: `repeat(${heatmap.offsetBins}, minmax(0, 1fr))` }}>
+        {heatmap.values.map((row, y) =>
+          row.map((value, o) => {
+            const visited = heatmap.visited[y][o]
+            const t = max > min ? (value - min) / (max - min) : 0.5
+            return (
+              <div
+                key={`${y}-${o}`}
+                title={visited ? `Q ${value.toFixed(2)}${heatmap.jump[y][o] ? " · jump" : " · wait"}` : "never visited"}
+                className="flex aspect-square items-center justify-center text-[6px] sm:text-[8px] leading-none text-white"
+                style={{ backgroundColor: visited ? `hsl(${Math.round(t * 120)}, 70%, 45%)` : "rgba(0,0,0,0.08)" }}
+              >
+                {visited && heatmap.jump[y][o] ? "↑" : ""}
+              </div>
+            )
+          }),
+        )}
+      </div>
+      <div className="flex justify-between text-[7px] sm:text-[9px] text-muted-foreground">
+        <span>← gap above bird</span>
+        <span>gap below bird →</span>
+      </div>
+    </div>
+  )
+}
+
+export function RLPanel({ gameEngine, disabled = false }: RLPanelProps) {
+  const [agent, setAgent] = useState<AgentKind>("tabular")
+  const [status, setStatus] = useState<RLStatus | null>(null)
+
+  useEffect(() => {
+    if (!gameEngine) return
+    gameEngine.onRLUpdate = setStatus
+    return () => {
+      gameEngine.onRLUpdate = undefined
+    }
+  }, [gameEngine])
+
+  const handleTrain = async () => {
+    if (!gameEngine) return
+    try {
+      if (!status) await gameEngine.createRLAgent(defaultRLConfig(agent))
+      await gameEngine.trainRL(EPISODES_PER_RUN[status?.agent ?? agent])
+    } catch (error) {
+      console.error("RL training failed:", error)
+      alert("Reinforcement learning failed: " + (error as Error).message)
+    }
+  }
+
+  const episodes = status?.episodes ?? []
+  const step = Math.max(1, Math.ceil(episodes.length / MAX_CHART_POINTS))
+  const chartData = episodes.filter((_, i) => i % step === 0 || i === episodes.length - 1)
+  const bestPipes = episodes.reduce((best, episode) => Math.max(best, episode.pipes), 0)
+
+  return (
+    <div className="space-y-1 sm:space-y-2 p-1 sm:p-2 lg:p-3 bg-sky-50 dark:bg-sky-950/20 rounded-lg border border-sky-200 dark:border-sky-800">
+      <div className="flex items-center gap-1 sm:gap-2">
+        <Gamepad2 className="h-2 w-2 sm:h-3 sm:w-3 lg:h-4 lg:w-4 text-sky-600" />
+        <span className="text-[9px] sm:text-[11px] md:text-xs font-semibold text-foreground flex-1">
+          Reinforcement Learning
+        </span>
+        {status && (
+          <Badge variant="outline" className="font-mono text-[7px] sm:text-[9px] md:text-[10px] px-1">
+            ep {episodes.length} · ε {status.epsilon.toFixed(2)} · best {bestPipes}
+          </Badge>
+        )}
+      </div>
+
+      <Select
+        value={status?.agent ?? agent}
+        disabled={disabled || status !== null}
+        onValueChange={(value) => setAgent(value as AgentKind)}
+      >
+        <SelectTrigger size="sm" className="h-5 sm:h-6 md:h-7 w-full text-[8px] sm:text-[10px] md:text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="tabular" className="text-[10px] sm:text-xs">
+            Q-table (discretised states)
+          </SelectItem>
+          <SelectItem value="dqn" className="text-[10px] sm:text-xs">
+            DQN (neural network + replay buffer)
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex gap-0.5 sm:gap-1">
+        {status?.training ? (
+          <Button onClick={() => gameEngine?.stopRLTraining()} variant="outline" size="sm" className={buttonClass}>
+            <Square className={iconClass} />
+            <span className="truncate">Stop</span>
+          </Button>
+        ) : (
+          <Button
+            onClick={handleTrain}
+            variant="outline"
+            size="sm"
+            disabled={disabled || !gameEngine}
+            className={buttonClass}
+          >
+            <Play className={iconClass} />
+            <span className="truncate">Train {EPISODES_PER_RUN[status?.agent ?? agent]} episodes</span>
+          </Button>
+        )}
+        <Button
+          onClick={() => gameEngine?.watchRLAgent()}
+          variant="outline"
+          size="sm"
+          disabled={!status || episodes.length === 0}
+          className={buttonClass}
+        >
+          <Eye className={iconClass} />
+          <span className="truncate">Watch</span>
+        </Button>
+        <Button
+          onClick={() => gameEngine?.resetRLAgent()}
+          variant="outline"
+          size="sm"
+          disabled={!status || status.training}
+          className={buttonClass}
+        >
+          <RotateCcw className={iconClass} />
+          <span className="truncate">New {agentLabels[status?.agent ?? agent]}</span>
+        </Button>
+      </div>
+
+      {chartData.length > 0 && (
+        <ChartContainer config={rewardConfig} className="aspect-auto h-28 sm:h-32 w-full">
+          <LineChart data={chartData} margin={{ top: 4, right: -20, bottom: 0, left: -20 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="episode" tickLine={false} fontSize={9} />
+            <YAxis yAxisId="reward" tickLine={false} fontSize={9} tickFormatter={(value) => value.toFixed(1)} />
+            <YAxis yAxisId="epsilon" orientation="right" domain={[0, 1]} tickLine={false} fontSize={9} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={formatEpisodeLabel} />} />
+            <Line
+              yAxisId="reward"
+              dataKey="avgReward"
+              stroke="var(--color-avgReward)"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="epsilon"
+              dataKey="epsilon"
+              stroke="var(--color-epsilon)"
+              dot={false}
+              strokeWidth={1.5}
+              strokeDasharray="4 2"
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {status?.heatmap && episodes.length > 0 && <QValueHeatmap heatmap={status.heatmap} />}
+    </div>
+  )
+}
@@ -0,0 +1,341 @@
+import { getTf } from "./tf-loader"
+
+// Everything that can fly the bird implements Classifier: given the model's features it returns the
+// probability of "jump", and it can explain a single decision in its own terms.
+
+export type Algorithm = "neural" | "logistic" | "knn" | "tree"
+
+export const ALGORITHMS: Algorithm[] = ["neural", "logistic", "knn", "tree"]
+
+export const ALGORITHM_LABELS: Record<Algorithm, string> = {
+  neural: "Neural network",
+  logistic: "Logistic regression",
+  knn: "k-nearest neighbours",
+  tree: "Decision tree",
+}
+
+export interface TreeNode {
+  id: number
+  samples: number
+  probability: number // Share of jumps among the training rows that reached this node
+  split?: { feature: number; threshold: number; left: TreeNode; right: TreeNode } // left is <= threshold
+}
+
+// Plain JSON so it can cross the worker boundary and be stored with a saved model
+export type ClassifierState =
+  | { algorithm: "logistic"; weights: number[]; bias: number }
+  | { algorithm: "knn"; k: number; features: number[][]; labels: number[] }
+  | { algorithm: "tree"; maxDepth: number; root: TreeNode }
+
+export type Explanation =
+  | { algorithm: "logistic"; weights: number[]; bias: number; contributions: number[]; probability: number }
+  | {
+      algorithm: "knn"
+      k: number
+      neighbours: { features: number[]; label: number; distance: number }[]
+      probability: number
+    }
+  | { algorithm: "tree"; root: TreeNode; path: number[]; probability: number }
+  | { algorithm: "neural"; summary: string; probability: number }
+
+export interface Classifier {
+  algorithm: Algorithm
+  fit(features: number[][], labels: number[]): void
+  predict(batch: number[][]): number[]
+  explain(input: number[]): Explanation
+  dispose(): void
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z))
+
+// --- Logistic regression -------------------------------------------------------------------------
+
+const LOGISTIC_ITERATIONS = 500
+const LOGISTIC_LEARNING_RATE = 0.5
+const LOGISTIC_L2 = 0.001
+
+export class LogisticRegression implements Classifier {
+  algorithm: Algorithm = "logistic"
+  weights: number[] = []
+  bias = 0
+
+  // Full-batch gradient descent; with five features this converges in well under a second
+  fit(features: number[][], labels: number[]) {
+    const n = features.length
+    const d = features[0]?.length ?? 0
+    this.weights = new Array(d).fill(0)
+    this.bias = 0
+
+    for (let iteration = 0; iteration < LOGISTIC_ITERATIONS; iteration++) {
+      const gradient = new Array(d).fill(0)
+      let biasGradient = 0
+      for (let i = 0; i < n; i++) {
+        const error = this.probability(features[i]) - labels[i]
+        for (let j = 0; j < d; j++) gradient[j] += (error * features[i][j]) / n
+        biasGradient += error / n
+      }
+      for (let j = 0; j < d; j++) {
+        this.weights[j] -= LOGISTIC_LEARNING_RATE * (gradient[j] + LOGISTIC_L2 * this.weights[j])
+      }
+      this.bias -= LOGISTIC_LEARNING_RATE * biasGradient
+    }
+  }
+
+  private probability(input: number[]) {
+    return sigmoid(input.reduce((sum, value, j) => sum + value * this.weights[j], this.bias))
+  }
+
+  predict(batch: number[][]) {
+    return batch.map((input) => this.probability(input))
+  }
+
+  explain(input: number[]): Explanation {
+    return {
+      algorithm: "logistic",
+      weights: [...this.weights],
+      bias: this.bias,
+      contributions: input.map((value, j) => value * this.weights[j]),
+      probability: this.probability(input),
+    }
+  }
+
+  dispose() {}
+}
+
+// --- k-nearest neighbours ------------------------------------------------------------------------
+
+export class KNearestNeighbours implements Classifier {
+  algorithm: Algorithm = "knn"
+  k: number
+  features: number[][] = []
+  labels: number[] = []
+
+  constructor(k = 7) {
+    this.k = k
+  }
+
+  // "Training" is just remembering every example
+  fit(features: number[][], labels: number[]) {
+    this.features = features.map((row) => [...row])
+    this.labels = [...labels]
+  }
+
+  // Keeps only the k best rows while scanning, so the decision-boundary overlay can afford dozens of
+  // queries per decision even with thousands of recorded frames
+  private neighbours(input: number[]) {
+    const best: { index: number; squared: number }[] = []
+    for (let i = 0; i < this.features.length; i++) {
+      const row = this.features[i]
+      let squared = 0
+      for (let j = 0; j < row.length; j++) squared += (row[j] - input[j]) ** 2
+      if (best.length === this.k && squared >= best[best.length - 1].squared) continue
+      let position = best.length
+      while (position > 0 && best[position - 1].squared > squared) position--
+      best.splice(position, 0, { index: i, squared })
+      if (best.length > this.k) best.pop()
+    }
+    return best.map(({ index, squared }) => ({
+      features: this.features[index],
+      label: this.labels[index],
+      distance: Math.sqrt(squared),
+    }))
+  }
+
+  private probability(neighbours: { label: number }[]) {
+    return neighbours.length > 0 ? neighbours.filter((n) => n.label === 1).length / neighbours.length : 0
+  }
+
+  predict(batch: number[][]) {
+    return batch.map((input) => this.probability(this.neighbours(input)))
+  }
+
+  explain(input: number[]): Explanation {
+    const neighbours = this.neighbours(input)
+    return { algorithm: "knn", k: this.k, neighbours, probability: this.probability(neighbours) }
+  }
+
+  dispose() {}
+}
+
+// --- Decision tree -------------------------------------------------------------------------------
+
+const TREE_MIN_SAMPLES_LEAF = 5
+
+const gini = (positives: number, total: number) => {
+  if (total === 0) return 0
+  const p = positives / total
+  return 2 * p * (1 - p)
+}
+
+export class DecisionTree implements Classifier {
+  algorithm: Algorithm = "tree"
+  maxDepth: number
+  root: TreeNode = { id: 0, samples: 0, probability: 0 }
+  private nextId = 0
+
+  constructor(maxDepth = 4) {
+    this.maxDepth = maxDepth
+  }
+
+  fit(features: number[][], labels: number[]) {
+    this.nextId = 0
+    this.root = this.grow(
+      features.map((_, i) => i),
+      features,
+      labels,
+      0,
+    )
+  }
+
+  // CART: at each node pick the feature/threshold pair that lowers Gini impurity the most
+  private grow(rows: number[], features: number[][], labels: number[], depth: number): TreeNode {
+    const positives = rows.reduce((sum, i) => sum + labels[i], 0)
+    const node: TreeNode = {
+      id: this.nextId++,
+      samples: rows.length,
+      probability: rows.length > 0 ? positives / rows.length : 0,
+    }
+    if (depth >= this.maxDepth || rows.length < 2 * TREE_MIN_SAMPLES_LEAF || positives === 0 || positives === rows.length) {
+      return node
+    }
+
+    let best: { feature: number; threshold: number; impurity: number } | null = null
+    const parentImpurity = gini(positives, rows.length)
+    for (let feature = 0; feature < (features[0]?.length ?? 0); feature++) {
+      const sorted = [...rows].sort((a, b) => features[a][feature] - features[b][feature])
+      let leftPositives = 0
+      for (let i = 0; i < sorted.length - 1; i++) {
+        leftPositives += labels[sorted[i]]
+        const leftCount = i + 1
+        const value = features[sorted[i]][feature]
+        const nextValue = features[sorted[i + 1]][feature]
+        if (value === nextValue || leftCount < TREE_MIN_SAMPLES_LEAF || sorted.length - leftCount < TREE_MIN_SAMPLES_LEAF) {
+          continue
+        }
+        const rightCount = sorted.length - leftCount
+        const impurity =
+          (leftCount * gini(leftPositives, leftCount) + rightCount * gini(positives - leftPositives, rightCount)) /
+          sorted.length
+        if (impurity < parentImpurity && (!best || impurity < best.impurity)) {
+          best = { feature, threshold: (value + nextValue) / 2, impurity }
+        }
+      }
+    }
+    if (!best) return node
+
+    const { feature, threshold } = best
+    node.split = {
+      feature,
+      threshold,
+      left: this.grow(
+        rows.filter((i) => features[i][feature] <= threshold),
+        features,
+        labels,
+        depth + 1,
+      ),
+      right: this.grow(
+        rows.filter((i) => features[i][feature] > threshold),
+        features,
+        labels,
+        depth + 1,
+      ),
+    }
+    return node
+  }
+
+  private walk(input: number[]) {
+    const path: number[] = []
+    let node = this.root
+    while (true) {
+      path.push(node.id)
+      if (!node.split) return { leaf: node, path }
+      node = input[node.split.feature] <= node.split.threshold ? node.split.left : node.split.right
+    }
+  }
+
+  predict(batch: number[][]) {
+    return batch.map((input) => this.walk(input).leaf.probability)
+  }
+
+  explain(input: number[]): Explanation {
+    const { leaf, path } = this.walk(input)
+    return { algorithm: "tree", root: this.root, path, probability: leaf.probability }
+  }
+
+  dispose() {}
+}
+
+// --- Neural network ------------------------------------------------------------------------------
+
+// Wraps a tfjs model that MLTrainer already trained (in the training worker)
+export class NeuralClassifier implements Classifier {
+  algorithm: Algorithm = "neural"
+  model: any
+
+  constructor(model: any) {
+    this.model = model
+  }
+
+  fit() {
+    throw new Error("Neural networks are trained by MLTrainer in the training worker")
+  }
+
+  predict(batch: number[][]) {
+    const tf = getTf()
+    if (!tf) throw new Error("TensorFlow.js is not loaded yet")
+    return tf.tidy(() => Array.from((this.model.predict(tf.tensor2d(batch)) as any).dataSync() as Float32Array))
+  }
+
+  explain(input: number[]): Explanation {
+    const units = this.model.layers
+      .filter((layer: any) => layer.getClassName() === "Dense")
+      .map((layer: any) => layer.units)
+    return {
+      algorithm: "neural",
+      summary: `${[input.length, ...units].join(" → ")} dense network with ${this.model.countParams()} weights`,
+      probability: this.predict([input])[0],
+    }
+  }
+
+  dispose() {
+    this.model.dispose()
+  }
+}
+
+// --- Construction and (de)serialization ----------------------------------------------------------
+
+export function createClassifier(algorithm: Exclude<Algorithm, "neural">, options: { k: number; maxDepth: number }) {
+  if (algorithm === "logistic") return new LogisticRegression()
+  if (algorithm === "knn") return new KNearestNeighbours(options.k)
+  return new DecisionTree(options.maxDepth)
+}
+
+export function serializeClassifier(classifier: Classifier): ClassifierState {
+  if (classifier instanceof LogisticRegression) {
+    return { algorithm: "logistic", weights: classifier.weights, bias: classifier.bias }
+  }
+  if (classifier instanceof KNearestNeighbours) {
+    return { algorithm: "knn", k: classifier.k, features: classifier.features, labels: classifier.labels }
+  }
+  if (classifier instanceof DecisionTree) {
+    return { algorithm: "tree", maxDepth: classifier.maxDepth, root: classifier.root }
+  }
+  throw new Error("Neural networks are saved through tfjs, not as classifier state")
+}
+
+export function restoreClassifier(state: ClassifierState): Classifier {
+  if (state.algorithm === "logistic") {
+    const classifier = new LogisticRegression()
+    classifier.weights = state.weights
+    classifier.bias = state.bias
+    return classifier
+  }
+  if (state.algorithm === "knn") {
+    const classifier = new KNearestNeighbours(state.k)
+    classifier.fit(state.features, state.labels)
+    return classifier
+  }
+  const classifier = new DecisionTree(state.maxDepth)
+  classifier.root = state.root
+  return classifier
+}
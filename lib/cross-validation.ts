@@ -0,0 +1,135 @@
+import type { ThresholdMetrics } from "./evaluation"
+import { shuffle } from "./random"
+
+// Splits that respect groups of rows. Consecutive frames of the same run are nearly identical, so if
+// some of them are trained on and their neighbours tested on, the test score measures memory rather
+// than skill. Every group therefore lands in exactly one fold.
+
+export interface FoldResult {
+  fold: number
+  trainSize: number
+  testSize: number
+  metrics: ThresholdMetrics
+  rocAuc: number
+}
+
+export interface MetricSpread {
+  mean: number
+  std: number
+  min: number
+  max: number
+}
+
+export const CV_METRICS = ["accuracy", "precision", "recall", "f1", "rocAuc"] as const
+
+export type CvMetric = (typeof CV_METRICS)[number]
+
+export interface CrossValidationReport {
+  k: number
+  groups: number // Distinct groups the rows were split by
+  byRow?: boolean // Too few groups for k folds, so rows were split one by one; missing in older reports
+  folds: FoldResult[]
+  summary: Record<CvMetric, MetricSpread>
+}
+
+// Rows per group for data without run boundaries: about five seconds of play
+export const ROWS_PER_GROUP = 50
+
+// Groups rows in the order they were recorded into stretches of consecutive frames
+export function contiguousGroups(rowCount: number, rowsPerGroup = ROWS_PER_GROUP) {
+  return Array.from({ length: rowCount }, (_, i) => Math.floor(i / rowsPerGroup))
+}
+
+// Cuts groups longer than `maxSize` into consecutive stretches with ids of their own. One long run would
+// otherwise outweigh a whole fold; only the frames at each cut sit next to frames on the other side.
+// `groups` must be in recording order.
+export function splitLongGroups(groups: number[], maxSize: number): number[] {
+  const seen = new Map<number, number>()
+  const ids = new Map<string, number>()
+  return groups.map((group) => {
+    const index = seen.get(group) ?? 0
+    seen.set(group, index + 1)
+    const key = `${group}:${Math.floor(index / maxSize)}`
+    if (!ids.has(key)) ids.set(key, ids.size)
+    return ids.get(key)!
+  })
+}
+
+// Longest group allowed when splitting `rowCount` rows into `k` folds: half a fold, so every fold is built
+// from several groups and can be filled close to its share
+export function maxGroupSize(rowCount: number, k: number) {
+  return Math.max(ROWS_PER_GROUP, Math.ceil(rowCount / (2 * k)))
+}
+
+export interface FoldAssignment {
+  folds: number[] // Fold index for every row
+  byRow: boolean // Rows were split one by one, so neighbouring frames sit on both sides of the split
+}
+
+// Groups are dealt out largest first to whichever fold is smallest so the folds end up close in size;
+// ties are broken by a seeded shuffle. With fewer groups than folds the rows themselves become the
+// groups, since some fold would otherwise be empty; `byRow` tells the report its scores read high.
+export function assignFolds(groups: number[], k: number, rng: () => number): FoldAssignment {
+  const sizes = new Map<number, number>()
+  for (const group of groups) sizes.set(group, (sizes.get(group) ?? 0) + 1)
+
+  if (sizes.size < k) {
+    const { folds } = assignFolds(
+      groups.map((_, i) => i),
+      k,
+      rng,
+    )
+    return { folds, byRow: true }
+  }
+
+  const order = shuffle([...sizes.keys()], rng).sort((a, b) => sizes.get(b)! - sizes.get(a)!)
+  const foldSizes = new Array(k).fill(0)
+  const foldOf = new Map<number, number>()
+  for (const group of order) {
+    const fold = foldSizes.indexOf(Math.min(...foldSizes))
+    foldOf.set(group, fold)
+    foldSizes[fold] += sizes.get(group)!
+  }
+
+  return { folds: groups.map((group) => foldOf.get(group)!), byRow: false }
+}
+
+// The fold to hold out for testing: the one closest to 1/k of the rows, ties broken by `rng`. Dealing
+// largest-first always puts the biggest group in fold 0, so fold 0 would be the worst choice.
+export function holdoutFold(folds: number[], k: number, rng: () => number) {
+  const sizes = new Array(k).fill(0)
+  for (const fold of folds) sizes[fold]++
+  const target = folds.length / k
+  const candidates = shuffle(Array.from({ length: k }, (_, fold) => fold), rng)
+  return candidates.reduce((best, fold) =>
+    Math.abs(sizes[fold] - target) < Math.abs(sizes[best] - target) ? fold : best,
+  )
+}
+
+// A test split this far off its 1/k share of the rows no longer measures what it is meant to
+const SPLIT_SHARE_TOLERANCE = 0.5
+
+// Share of the rows in `fold`, with a warning when it is far from the intended 1/k
+export function checkFoldShare(folds: number[], fold: number, k: number) {
+  const share = folds.filter((f) => f === fold).length / Math.max(1, folds.length)
+  if (Math.abs(share - 1 / k) > SPLIT_SHARE_TOLERANCE / k) {
+    console.warn(
+      `[v0] Test split holds ${(share * 100).toFixed(1)}% of the rows instead of about ${(100 / k).toFixed(0)}%`,
+    )
+  }
+  return share
+}
+
+export function metricSpread(values: number[]): MetricSpread {
+  const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length)
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length)
+  return { mean, std: Math.sqrt(variance), min: Math.min(...values), max: Math.max(...values) }
+}
+
+export function summarizeFolds(folds: FoldResult[], groups: number, byRow: boolean): CrossValidationReport {
+  const valueOf = (fold: FoldResult, metric: CvMetric) => (metric === "rocAuc" ? fold.rocAuc : fold.metrics[metric])
+  const summary = Object.fromEntries(
+    CV_METRICS.map((metric) => [metric, metricSpread(folds.map((fold) => valueOf(fold, metric)))]),
+  ) as Record<CvMetric, MetricSpread>
+  return { k: folds.length, groups, byRow, folds, summary }
+}
@@ -0,0 +1,136 @@
+import type { Classifier } from "./classifiers"
+import { SAMPLE_EVERY_TICKS, Simulation, TICKS_PER_SECOND, type PhysicsConfig } from "./simulation"
+
+// Several birds flying the same seeded course at once, each in its own Simulation.
+// Pipes depend only on the seed, so every bird that is still alive sees identical pipes.
+
+export type CrowdPolicy = (sim: Simulation) => boolean
+
+export interface CrowdMember {
+  id: string
+  name: string
+  color: string
+  decide: CrowdPolicy // Asked on every sampling tick, like the single-player AI
+}
+
+export interface CrowdResult {
+  id: string
+  name: string
+  color: string
+  alive: boolean
+  survivalTicks: number
+  pipesPassed: number
+  jumps: number
+}
+
+export const CROWD_COLORS = ["#ff69b4", "#2563eb", "#16a34a", "#f97316", "#9333ea", "#0891b2", "#dc2626", "#ca8a04"]
+
+export const CROWD_SPEEDS = [1, 2, 4, 8]
+
+// Three simulated minutes; a model that never crashes still has to finish eventually
+export const DEFAULT_MAX_CROWD_TICKS = TICKS_PER_SECOND * 60 * 3
+
+// Same rule as the single-player AI: right after a jump it takes more confidence to jump again
+export function jumpThreshold(framesSinceLastJump: number) {
+  return framesSinceLastJump < 10 ? 0.7 : 0.5
+}
+
+// Wraps a classifier in the same decision rule GameEngine uses for the pink AI bird.
+// inputs turns a simulation into the classifier's (preprocessed) feature vector.
+export function classifierPolicy(classifier: Classifier, inputs: (sim: Simulation) => number[]): CrowdPolicy {
+  let framesSinceLastJump = 0
+  return (sim) => {
+    const pred = classifier.predict([inputs(sim)])[0]
+    if (pred > jumpThreshold(framesSinceLastJump)) {
+      framesSinceLastJump = 0
+      return true
+    }
+    framesSinceLastJump++
+    return false
+  }
+}
+
+export class CrowdRun {
+  members: CrowdMember[]
+  sims: Simulation[]
+  results: CrowdResult[]
+  seed: number
+  tick: number
+  maxTicks: number
+  private pendingJumps: boolean[]
+
+  constructor(
+    members: CrowdMember[],
+    seed: number,
+    physics: Partial<PhysicsConfig> = {},
+    maxTicks = DEFAULT_MAX_CROWD_TICKS,
+  ) {
+    this.members = members
+    this.seed = seed
+    this.tick = 0
+    this.maxTicks = maxTicks
+    this.sims = members.map(() => {
+      const sim = new Simulation(physics)
+      sim.reset(seed)
+      return sim
+    })
+    this.results = members.map((member) => ({
+      id: member.id,
+      name: member.name,
+      color: member.color,
+      alive: true,
+      survivalTicks: 0,
+      pipesPassed: 0,
+      jumps: 0,
+    }))
+    this.pendingJumps = members.map(() => false)
+  }
+
+  get finished() {
+    return this.tick >= this.maxTicks || this.sims.every((sim) => !sim.alive)
+  }
+
+  // The simulation whose pipes get drawn: any survivor, or the last bird standing once all are down
+  get leader(): Simulation {
+    const alive = this.sims.find((sim) => sim.alive)
+    if (alive) return alive
+    let best = this.sims[0]
+    for (const sim of this.sims) if (sim.tick > best.tick) best = sim
+    return best
+  }
+
+  // Returns the indices of members that crashed on this tick
+  step(): number[] {
+    if (this.finished) return []
+    this.tick++
+    const crashed: number[] = []
+
+    this.sims.forEach((sim, i) => {
+      if (!sim.alive) return
+      const jump = this.pendingJumps[i]
+      this.pendingJumps[i] = false
+      const result = sim.step(jump)
+      const stats = this.results[i]
+      if (jump) stats.jumps++
+      stats.survivalTicks = sim.tick
+      stats.pipesPassed = sim.score
+      if (result.dead) {
+        stats.alive = false
+        crashed.push(i)
+        return
+      }
+      if (sim.tick % SAMPLE_EVERY_TICKS === 0) {
+        this.pendingJumps[i] = this.members[i].decide(sim)
+      }
+    })
+
+    return crashed
+  }
+
+  // Best first: further is better, fewer jumps breaks ties (a calmer flight)
+  ranking(): CrowdResult[] {
+    return [...this.results].sort(
+      (a, b) => b.pipesPassed - a.pipesPassed || b.survivalTicks - a.survivalTicks || a.jumps - b.jumps,
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import type { Dataset } from "./dataset"
+import {
+  DATASET_SCHEMA_VERSION,
+  ROW_COLUMNS,
+  canvasScale,
+  checkSchemaVersion,
+  emptyImportReport,
+  failedImport,
+  finishImport,
+  formatNumber,
+  parseCanvas,
+  readEpisodeFields,
+  readLevel,
+  readRow,
+  recordedAt,
+  type Canvas,
+  type DatasetFileMeta,
+  type EpisodeFields,
+  type ImportReport,
+  type ImportResult,
+  type ImportedEpisode,
+} from "./dataset-file"
+
+// Recorded gameplay as CSV. A commented preamble carries the file metadata and one line per episode; the
+// rows stay plain so spreadsheets and pandas read them without help.
+
+export function serializeDatasetCsv(dataset: Dataset, meta: DatasetFileMeta) {
+  const preamble = [
+    "# flappyml dataset",
+    `# schema: ${DATASET_SCHEMA_VERSION}`,
+    `# canvas: ${meta.physics.width}x${meta.physics.height}`,
+    `# physics: ${JSON.stringify(meta.physics)}`,
+    `# level: ${meta.level ?? "-"}`,
+    `# seed: ${meta.seed ?? "-"}`,
+    `# recorded-at: ${recordedAt(dataset) ?? "-"}`,
+    `# exported-at: ${new Date().toISOString()}`,
+  ]
+  const episodeLines = dataset.map(
+    ({ id, level, seed, player, finalScore, end, startedAt }) =>
+      `# episode ${id}: level=${level ?? "-"} seed=${seed ?? "-"} player=${player ?? "-"} ` +
+      `score=${finalScore ?? "-"} end=${end ?? "-"} started=${startedAt}`,
+  )
+  const rows = dataset.flatMap((episode) =>
+    episode.rows.map((row) =>
+      [row.pressed, ...ROW_COLUMNS.slice(1).map((column) => formatNumber(row[column])), episode.id].join(","),
+    ),
+  )
+  return [...preamble, ...episodeLines, `${ROW_COLUMNS.join(",")},episode_id`, ...rows].join("\n")
+}
+
+function parseEpisodeComment(line: string, report: ImportReport): [number, Partial<EpisodeFields>] | null {
+  const match = line.match(/^#\s*episode\s+(\d+):(.*)$/)
+  if (!match) return null
+  const fields = Object.fromEntries(
+    match[2]
+      .trim()
+      .split(/\s+/)
+      .map((pair) => pair.split("=") as [string, string]),
+  )
+  return [Number(match[1]), readEpisodeFields({ ...fields, finalScore: fields.score, startedAt: fields.started }, report)]
+}
+
+// "# key: value" lines of the preamble; episode lines have their own format and are read separately
+function parsePreamble(comments: string[]) {
+  const preamble = new Map<string, string>()
+  for (const line of comments) {
+    const match = line.match(/^#\s*([a-z-]+):\s*(.*)$/i)
+    if (match) preamble.set(match[1].toLowerCase(), match[2].trim())
+  }
+  return preamble
+}
+
+// Reads every schema version. Columns may come in any order and unknown ones are ignored; coordinates are
+// rescaled when the file was recorded on a different canvas. Nothing is thrown: problems end up in the report,
+// and episodes get fresh ids after the ones already in `dataset`.
+export function parseDatasetCsv(text: string, dataset: Dataset, canvas: Canvas): ImportResult {
+  const report = emptyImportReport()
+
+  const lines = text.split(/\r?\n/)
+  const comments = lines.filter((line) => line.startsWith("#"))
+  const headerIndex = lines.findIndex((line) => line.trim() !== "" && !line.startsWith("#"))
+  if (headerIndex === -1) return failedImport(report, "The file has no header row.")
+
+  const header = lines[headerIndex].split(",").map((name) => name.trim().toLowerCase())
+  const missing = ROW_COLUMNS.filter((column) => !header.includes(column))
+  if (missing.length > 0) {
+    return failedImport(
+      report,
+      `Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}. Found: ${header.join(", ")}.`,
+    )
+  }
+  const episodeIndex = header.indexOf("episode_id")
+  const ignored = header.filter((name) => name !== "episode_id" && !(ROW_COLUMNS as readonly string[]).includes(name))
+  if (ignored.length > 0) report.warnings.push(`Ignored unknown columns: ${ignored.join(", ")}.`)
+
+  const preamble = parsePreamble(comments)
+  const schema = Number.parseInt(preamble.get("schema") ?? "")
+  report.schemaVersion = Number.isFinite(schema) ? schema : episodeIndex === -1 ? 0 : 1
+  checkSchemaVersion(report)
+  const scale = canvasScale(parseCanvas(preamble.get("canvas")), canvas, report)
+
+  const described = new Map(
+    comments.map((line) => parseEpisodeComment(line, report)).filter((entry): entry is NonNullable<typeof entry> => entry !== null),
+  )
+  const fileLevel = readLevel(preamble.get("level"), report)
+  // Schema 0 files list their seeds on one line; with a single seed it must be the run's
+  const legacySeeds = preamble.get("seeds")?.split(/\s+/).map(Number)
+  const legacySeed = legacySeeds?.length === 1 && Number.isFinite(legacySeeds[0]) ? legacySeeds[0] : null
+
+  const episodes = new Map<number, ImportedEpisode>()
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.trim() === "" || line.startsWith("#")) continue
+    const skip = (message: string) => report.skipped.push({ location: `line ${i + 1}`, message })
+
+    const values = line.split(",").map((value) => value.trim())
+    if (values.length !== header.length) {
+      skip(`Expected ${header.length} values, found ${values.length}.`)
+      continue
+    }
+    const row = readRow(Object.fromEntries(header.map((name, column) => [name, values[column]])), scale)
+    if (typeof row === "string") {
+      skip(row)
+      continue
+    }
+    const fileId = episodeIndex === -1 ? 0 : Number.parseInt(values[episodeIndex])
+    if (!Number.isFinite(fileId)) {
+      skip("episode_id is not a whole number.")
+      continue
+    }
+
+    if (!episodes.has(fileId)) {
+      episodes.set(fileId, {
+        fields: described.get(fileId) ?? { level: fileLevel, seed: episodeIndex === -1 ? legacySeed : null },
+        rows: [],
+      })
+    }
+    episodes.get(fileId)!.rows.push(row)
+  }
+
+  return finishImport([...episodes.values()], dataset, report)
+}
@@ -0,0 +1,168 @@
+import { createEpisode, type Dataset, type Episode, type EpisodeEnd } from "./dataset"
+import type { Level } from "./game-engine"
+import { DEFAULT_PHYSICS, type GameData, type PhysicsConfig } from "./simulation"
+
+// What every dataset file format shares: the schema version, the metadata written alongside the rows, and
+// the checks and migrations applied on import. The formats themselves only turn text into records and back.
+//
+// Schema history:
+//   0  the original six CSV columns, optionally preceded by "# seeds: ..."
+//   1  adds the episode id of each row and the metadata of each episode
+//   2  adds the file metadata (canvas size, physics, level, seed, timestamps) and keeps four decimals
+export const DATASET_SCHEMA_VERSION = 2
+
+export const ROW_COLUMNS = ["pressed", "y", "vel", "dist", "mid1", "mid2"] as const
+
+export type RowColumn = (typeof ROW_COLUMNS)[number]
+
+// Files written before the canvas size was recorded all came from the default canvas
+const LEGACY_CANVAS = { width: DEFAULT_PHYSICS.width, height: DEFAULT_PHYSICS.height }
+
+export type Canvas = Pick<PhysicsConfig, "width" | "height">
+
+export type EpisodeFields = Omit<Episode, "id" | "rows">
+
+export interface DatasetFileMeta {
+  physics: PhysicsConfig
+  level: Level | null
+  seed: number | null // Course seed locked by the teacher, if any
+}
+
+export interface ImportIssue {
+  location: string // "line 12" in text formats, "episode 3, row 12" in JSON
+  message: string
+}
+
+export interface ImportReport {
+  ok: boolean
+  fileName: string | null
+  schemaVersion: number // Version the file was written with; older ones are migrated on import
+  rows: number
+  episodes: number
+  skipped: ImportIssue[]
+  warnings: string[]
+  error: string | null // Why nothing was imported
+}
+
+export interface ImportResult {
+  episodes: Episode[]
+  report: ImportReport
+}
+
+// Rows read from a file, grouped by the episode they came from, before ids are assigned
+export interface ImportedEpisode {
+  fields: Partial<EpisodeFields>
+  rows: GameData[]
+}
+
+export function emptyImportReport(): ImportReport {
+  return { ok: false, fileName: null, schemaVersion: 0, rows: 0, episodes: 0, skipped: [], warnings: [], error: null }
+}
+
+export const failedImport = (report: ImportReport, error: string): ImportResult => ({
+  episodes: [],
+  report: { ...report, error },
+})
+
+export const formatNumber = (value: number) => Number(value.toFixed(4))
+
+export function recordedAt(dataset: Dataset) {
+  return dataset.map((episode) => episode.startedAt).sort()[0] ?? null
+}
+
+export function parseCanvas(value: string | undefined) {
+  const match = value?.match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)$/)
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : null
+}
+
+// Notes a migration or a newer file in the report
+export function checkSchemaVersion(report: ImportReport) {
+  if (report.schemaVersion > DATASET_SCHEMA_VERSION) {
+    report.warnings.push(`Written by a newer version (schema ${report.schemaVersion}); read what could be understood.`)
+  } else if (report.schemaVersion < DATASET_SCHEMA_VERSION) {
+    report.warnings.push(`Migrated from schema ${report.schemaVersion} to ${DATASET_SCHEMA_VERSION}.`)
+  }
+}
+
+// Factors that map the file's coordinates onto `canvas`
+export function canvasScale(fileCanvas: Canvas | null, canvas: Canvas, report: ImportReport) {
+  if (!fileCanvas && report.schemaVersion < 2) {
+    report.warnings.push(
+      `No canvas size in the file; assumed the ${LEGACY_CANVAS.width}x${LEGACY_CANVAS.height} default.`,
+    )
+  }
+  const source = fileCanvas ?? LEGACY_CANVAS
+  const scale = { x: canvas.width / source.width, y: canvas.height / source.height }
+  if (scale.x !== 1 || scale.y !== 1) {
+    report.warnings.push(
+      `Recorded on a ${source.width}x${source.height} canvas; rescaled to ${canvas.width}x${canvas.height}.`,
+    )
+  }
+  return scale
+}
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : Number.NaN
+
+// One row from its named values, or why it cannot be used
+export function readRow(
+  values: Partial<Record<RowColumn, unknown>>,
+  scale: { x: number; y: number },
+): GameData | string {
+  const row = Object.fromEntries(ROW_COLUMNS.map((column) => [column, toNumber(values[column])])) as unknown as GameData
+  const notNumbers = ROW_COLUMNS.filter((column) => !Number.isFinite(row[column]))
+  if (notNumbers.length > 0) return `Not a number in ${notNumbers.join(", ")}.`
+  if (row.pressed !== 0 && row.pressed !== 1) return `pressed must be 0 or 1, found ${row.pressed}.`
+  row.y *= scale.y
+  row.vel *= scale.y
+  row.dist *= scale.x
+  row.mid1 *= scale.y
+  row.mid2 *= scale.y
+  return row
+}
+
+const LEVELS: Level[] = ["finetuning", "underfitting", "overfitting"]
+const EPISODE_ENDS: EpisodeEnd[] = ["pipe", "ceiling", "ground", "stopped"]
+
+const text = (value: unknown) => (typeof value === "string" && value !== "-" ? value : null)
+
+// `value` if it is one of `known`; anything else is dropped with one warning per distinct value
+function knownValue<T extends string>(value: unknown, known: T[], field: string, report: ImportReport): T | null {
+  const found = text(value)
+  if (found === null || known.includes(found as T)) return found as T | null
+  const warning = `Unknown ${field} "${found}" left empty.`
+  if (!report.warnings.includes(warning)) report.warnings.push(warning)
+  return null
+}
+
+export const readLevel = (value: unknown, report: ImportReport) => knownValue(value, LEVELS, "level", report)
+
+// Episode metadata from loosely typed values; anything unexpected becomes null rather than failing the import
+export function readEpisodeFields(values: Record<string, unknown>, report: ImportReport): Partial<EpisodeFields> {
+  const number = (value: unknown) => {
+    const parsed = toNumber(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  const player = text(values.player)
+  const startedAt = text(values.startedAt)
+  return {
+    ...(startedAt !== null && { startedAt }),
+    level: readLevel(values.level, report),
+    seed: number(values.seed),
+    player: player === "human" || player === "ai" ? player : null,
+    finalScore: number(values.finalScore),
+    end: knownValue(values.end, EPISODE_ENDS, "episode end", report),
+  }
+}
+
+// Gives the imported episodes ids after the ones already in `dataset` and completes the report
+export function finishImport(imported: ImportedEpisode[], dataset: Dataset, report: ImportReport): ImportResult {
+  const episodes: Episode[] = []
+  for (const { fields, rows } of imported) {
+    if (rows.length === 0) continue
+    episodes.push(createEpisode([...dataset, ...episodes], { level: null, seed: null, player: null, ...fields, rows }))
+  }
+  const rowCount = episodes.reduce((sum, episode) => sum + episode.rows.length, 0)
+  if (rowCount === 0) return failedImport(report, "No valid data rows found.")
+  return { episodes, report: { ...report, ok: true, rows: rowCount, episodes: episodes.length } }
+}
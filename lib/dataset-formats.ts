@@ -0,0 +1,64 @@
+import type { Dataset } from "./dataset"
+import { parseDatasetCsv, serializeDatasetCsv } from "./dataset-csv"
+import type { Canvas, DatasetFileMeta, ImportResult } from "./dataset-file"
+import { parseDatasetJson, parseDatasetJsonl, serializeDatasetJson, serializeDatasetJsonl } from "./dataset-json"
+
+// The file formats a dataset can be downloaded in and uploaded from. Every format carries the same schema
+// (see dataset-file.ts), so a file can be converted by uploading it and downloading it in another format.
+
+export type DatasetFormat = "csv" | "json" | "jsonl"
+
+interface FormatSpec {
+  label: string
+  extension: string
+  mimeType: string
+  serialize: (dataset: Dataset, meta: DatasetFileMeta) => string
+  parse: (text: string, dataset: Dataset, canvas: Canvas) => ImportResult
+}
+
+const FORMATS: Record<DatasetFormat, FormatSpec> = {
+  csv: {
+    label: "CSV",
+    extension: ".csv",
+    mimeType: "text/csv",
+    serialize: serializeDatasetCsv,
+    parse: parseDatasetCsv,
+  },
+  json: {
+    label: "JSON",
+    extension: ".json",
+    mimeType: "application/json",
+    serialize: serializeDatasetJson,
+    parse: parseDatasetJson,
+  },
+  jsonl: {
+    label: "JSON Lines",
+    extension: ".jsonl",
+    mimeType: "application/jsonl",
+    serialize: serializeDatasetJsonl,
+    parse: parseDatasetJsonl,
+  },
+}
+
+export const DATASET_FORMATS = Object.keys(FORMATS) as DatasetFormat[]
+
+export const formatLabel = (format: DatasetFormat) => FORMATS[format].label
+
+export const formatExtension = (format: DatasetFormat) => FORMATS[format].extension
+
+export const formatMimeType = (format: DatasetFormat) => FORMATS[format].mimeType
+
+// The format a file name's extension names, if any (".ndjson" is the other common name for JSON Lines)
+export function formatFromFileName(name: string): DatasetFormat | null {
+  const extension = name.toLowerCase().match(/\.[a-z]+$/)?.[0]
+  if (extension === ".ndjson") return "jsonl"
+  return DATASET_FORMATS.find((format) => FORMATS[format].extension === extension) ?? null
+}
+
+export function serializeDataset(dataset: Dataset, meta: DatasetFileMeta, format: DatasetFormat) {
+  return FORMATS[format].serialize(dataset, meta)
+}
+
+export function parseDataset(text: string, format: DatasetFormat, dataset: Dataset, canvas: Canvas): ImportResult {
+  return FORMATS[format].parse(text, dataset, canvas)
+}
@@ -0,0 +1,177 @@
+import type { Dataset, Episode } from "./dataset"
+import {
+  DATASET_SCHEMA_VERSION,
+  ROW_COLUMNS,
+  canvasScale,
+  checkSchemaVersion,
+  emptyImportReport,
+  failedImport,
+  finishImport,
+  formatNumber,
+  readEpisodeFields,
+  readRow,
+  recordedAt,
+  type Canvas,
+  type DatasetFileMeta,
+  type ImportReport,
+  type ImportResult,
+  type ImportedEpisode,
+} from "./dataset-file"
+import type { GameData } from "./simulation"
+
+// Recorded gameplay as JSON (one document) and JSON Lines (one episode per line, each carrying the schema
+// and canvas it needs, so a notebook can stream or concatenate files without a header to keep track of).
+
+const DOCUMENT_FORMAT = "flappyml-dataset"
+
+type Json = Record<string, unknown>
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+function episodeRecord(episode: Episode) {
+  const { id, startedAt, level, seed, player, finalScore, end, rows } = episode
+  return {
+    id,
+    startedAt,
+    level,
+    seed,
+    player,
+    finalScore,
+    end,
+    rows: rows.map((row) => Object.fromEntries(ROW_COLUMNS.map((column) => [column, formatNumber(row[column])]))),
+  }
+}
+
+export function serializeDatasetJson(dataset: Dataset, meta: DatasetFileMeta) {
+  return JSON.stringify(
+    {
+      format: DOCUMENT_FORMAT,
+      schema: DATASET_SCHEMA_VERSION,
+      canvas: { width: meta.physics.width, height: meta.physics.height },
+      physics: meta.physics,
+      level: meta.level,
+      seed: meta.seed,
+      recordedAt: recordedAt(dataset),
+      exportedAt: new Date().toISOString(),
+      episodes: dataset.map(episodeRecord),
+    },
+    null,
+    2,
+  )
+}
+
+export function serializeDatasetJsonl(dataset: Dataset, meta: DatasetFileMeta) {
+  const canvas = { width: meta.physics.width, height: meta.physics.height }
+  return dataset
+    .map((episode) => JSON.stringify({ schema: DATASET_SCHEMA_VERSION, canvas, ...episodeRecord(episode) }))
+    .join("\n")
+}
+
+function readCanvas(value: unknown): Canvas | null {
+  if (!isObject(value)) return null
+  const { width, height } = value
+  return typeof width === "number" && typeof height === "number" && width > 0 && height > 0 ? { width, height } : null
+}
+
+// The rows of one episode record; bad rows are skipped and reported under `location`
+function readRows(rows: unknown[], scale: { x: number; y: number }, location: string, report: ImportReport) {
+  const read: GameData[] = []
+  rows.forEach((value, i) => {
+    const row = isObject(value) ? readRow(value, scale) : "Not an object."
+    if (typeof row === "string") report.skipped.push({ location: `${location}, row ${i + 1}`, message: row })
+    else read.push(row)
+  })
+  return read
+}
+
+// An episode record, or a bare row (schema 0 exports from other tools) that joins the episode named by its
+// episode_id
+function readRecord(
+  record: Json,
+  scale: { x: number; y: number },
+  location: string,
+  report: ImportReport,
+  looseRows: Map<unknown, ImportedEpisode>,
+): ImportedEpisode | null {
+  if (Array.isArray(record.rows)) {
+    return { fields: readEpisodeFields(record, report), rows: readRows(record.rows, scale, location, report) }
+  }
+  const row = readRow(record, scale)
+  if (typeof row === "string") {
+    report.skipped.push({ location, message: row })
+    return null
+  }
+  const episodeId = record.episode_id ?? null
+  const episode = looseRows.get(episodeId) ?? { fields: {}, rows: [] }
+  const isNew = !looseRows.has(episodeId)
+  looseRows.set(episodeId, episode)
+  episode.rows.push(row)
+  return isNew ? episode : null
+}
+
+// Accepts the document written above, a bare array of episode records, or a bare array of rows
+export function parseDatasetJson(text: string, dataset: Dataset, canvas: Canvas): ImportResult {
+  const report = emptyImportReport()
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return failedImport(report, `Not valid JSON: ${(error as Error).message}`)
+  }
+
+  const document = isObject(parsed) ? parsed : { episodes: parsed }
+  if (!Array.isArray(document.episodes)) return failedImport(report, "No episodes array in the file.")
+  if (document.format !== undefined && document.format !== DOCUMENT_FORMAT) {
+    report.warnings.push(`Unexpected format "${String(document.format)}"; read it as a dataset anyway.`)
+  }
+  const records = document.episodes
+  const hasEpisodes = records.some((record) => isObject(record) && Array.isArray(record.rows))
+  report.schemaVersion = typeof document.schema === "number" ? document.schema : hasEpisodes ? 1 : 0
+  checkSchemaVersion(report)
+  const scale = canvasScale(readCanvas(document.canvas), canvas, report)
+
+  const imported: ImportedEpisode[] = []
+  const looseRows = new Map<unknown, ImportedEpisode>()
+  records.forEach((record, i) => {
+    const location = hasEpisodes ? `episode ${i + 1}` : `row ${i + 1}`
+    if (!isObject(record)) {
+      report.skipped.push({ location, message: "Not an object." })
+      return
+    }
+    const episode = readRecord(record, scale, location, report, looseRows)
+    if (episode) imported.push(episode)
+  })
+  return finishImport(imported, dataset, report)
+}
+
+// One JSON value per line: episode records, or bare rows. Schema and canvas come from the first line that has them.
+export function parseDatasetJsonl(text: string, dataset: Dataset, canvas: Canvas): ImportResult {
+  const report = emptyImportReport()
+  const records: [number, Json][] = []
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === "") return
+    try {
+      const record: unknown = JSON.parse(line)
+      if (isObject(record)) records.push([i + 1, record])
+      else report.skipped.push({ location: `line ${i + 1}`, message: "Not an object." })
+    } catch (error) {
+      report.skipped.push({ location: `line ${i + 1}`, message: `Not valid JSON: ${(error as Error).message}` })
+    }
+  })
+  if (records.length === 0) return failedImport(report, "No JSON objects found in the file.")
+
+  const schema = records.find(([, record]) => typeof record.schema === "number")?.[1].schema as number | undefined
+  report.schemaVersion = schema ?? (records.some(([, record]) => Array.isArray(record.rows)) ? 1 : 0)
+  checkSchemaVersion(report)
+  const fileCanvas = records.map(([, record]) => readCanvas(record.canvas)).find((value) => value !== null) ?? null
+  const scale = canvasScale(fileCanvas, canvas, report)
+
+  const imported: ImportedEpisode[] = []
+  const looseRows = new Map<unknown, ImportedEpisode>()
+  for (const [line, record] of records) {
+    const episode = readRecord(record, scale, `line ${line}`, report, looseRows)
+    if (episode) imported.push(episode)
+  }
+  return finishImport(imported, dataset, report)
+}
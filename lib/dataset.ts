@@ -0,0 +1,72 @@
+import type { Level } from "./game-engine"
+import type { DeathCause, GameData } from "./simulation"
+
+// Recorded gameplay grouped by run. Every game the student records into becomes one episode, so a
+// bad run can be dropped as a whole and splits can keep all frames of a run on the same side.
+
+export type EpisodeEnd = DeathCause | "stopped" // Stopped: ended by the player, a restart or a level switch
+
+export interface Episode {
+  id: number
+  startedAt: string
+  level: Level | null // Null for rows imported without episode information
+  seed: number | null
+  player: "human" | "ai" | null
+  finalScore: number | null // Null while the run is still going
+  end: EpisodeEnd | null
+  rows: GameData[]
+}
+
+export type Dataset = Episode[]
+
+export function createEpisode(
+  dataset: Dataset,
+  fields: Pick<Episode, "level" | "seed" | "player"> & Partial<Episode>,
+): Episode {
+  return {
+    id: nextEpisodeId(dataset),
+    startedAt: new Date().toISOString(),
+    finalScore: null,
+    end: null,
+    rows: [],
+    ...fields,
+  }
+}
+
+export function nextEpisodeId(dataset: Dataset) {
+  return dataset.reduce((max, episode) => Math.max(max, episode.id), 0) + 1
+}
+
+export function countRows(dataset: Dataset) {
+  return dataset.reduce((sum, episode) => sum + episode.rows.length, 0)
+}
+
+export function datasetRows(dataset: Dataset): GameData[] {
+  return dataset.flatMap((episode) => episode.rows)
+}
+
+// Episode id of every row of datasetRows(), in the same order
+export function rowEpisodeIds(dataset: Dataset): number[] {
+  return dataset.flatMap((episode) => episode.rows.map(() => episode.id))
+}
+
+export function datasetSeeds(dataset: Dataset): number[] {
+  return [...new Set(dataset.flatMap((episode) => (episode.seed === null ? [] : [episode.seed])))]
+}
+
+export const END_LABELS: Record<EpisodeEnd, string> = {
+  pipe: "Hit a pipe",
+  ceiling: "Flew off the top",
+  ground: "Fell to the ground",
+  stopped: "Stopped",
+}
+
+export function removeEpisode(dataset: Dataset, id: number): Dataset {
+  return dataset.filter((episode) => episode.id !== id)
+}
+
+// Drops individual rows. Episodes left without rows are dropped too, except `keep` (the one still recording).
+export function removeRows(dataset: Dataset, rows: Set<GameData>, keep: Episode | null = null): Dataset {
+  for (const episode of dataset) episode.rows = episode.rows.filter((row) => !rows.has(row))
+  return dataset.filter((episode) => episode.rows.length > 0 || episode === keep)
+}
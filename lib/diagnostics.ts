@@ -0,0 +1,199 @@
+import { BIRD_START_Y, type GameData, type PhysicsConfig } from "./simulation"
+
+// Checks run on the recording before training. Noisy data is the most common reason a student's AI
+// fails, so each problem is named, counted and, where possible, fixable by dropping the rows it found.
+
+export type CheckStatus = "pass" | "warn" | "fail"
+
+export type CheckId = "balance" | "invalid" | "duplicates" | "contradictions" | "idle"
+
+export interface DiagnosticCheck {
+  id: CheckId
+  status: CheckStatus
+  title: string
+  detail: string
+  affected: number // Rows the fix would remove; 0 when there is nothing to fix
+  fix: string | null // Label of the one-click fix
+}
+
+export interface DiagnosticsReport {
+  status: CheckStatus // The worst of the checks
+  rowCount: number
+  checks: DiagnosticCheck[]
+}
+
+export type DiagnosticsContext = Pick<PhysicsConfig, "width" | "height">
+
+// Jump share outside this range leaves the model too few examples of one of the two actions
+const JUMP_SHARE = { min: 0.05, max: 0.5 }
+
+// States in the same cell of this grid count as "the same situation" when looking for contradictions.
+// The gap after next is left out; it barely matters for the next jump.
+const SAME_STATE = { y: 10, vel: 2, dist: 25, mid1: 20 }
+
+// Consistent play still mixes labels in about 6% of repeated situations (jump timing is never exact);
+// random play mixes about 20%
+const CONTRADICTION_SHARE_WARN = 0.12
+
+// Fewer repeated situations than this are too few to judge
+const MIN_REPEATED_ROWS = 20
+
+const DUPLICATE_SHARE_WARN = 0.01
+
+const STATUS_ORDER: CheckStatus[] = ["pass", "warn", "fail"]
+
+const worst = (statuses: CheckStatus[]) =>
+  statuses.reduce((a, b) => (STATUS_ORDER.indexOf(b) > STATUS_ORDER.indexOf(a) ? b : a), "pass")
+
+const percent = (count: number, total: number) => `${((count / Math.max(1, total)) * 100).toFixed(1)}%`
+
+// NaN from a bad parseFloat, a bird outside the canvas, a gap centre off screen or a label that is not 0/1
+export function findInvalidRows(rows: GameData[], { width, height }: DiagnosticsContext) {
+  const inRange = (value: number, min: number, max: number) => Number.isFinite(value) && value >= min && value <= max
+  return rows.filter(
+    (row) =>
+      (row.pressed !== 0 && row.pressed !== 1) ||
+      !inRange(row.y, 0, height) ||
+      !Number.isFinite(row.vel) ||
+      !inRange(row.dist, -width, width) ||
+      !inRange(row.mid1, 0, height) ||
+      !inRange(row.mid2, 0, height),
+  )
+}
+
+// Every repeat after the first occurrence of an identical row
+export function findDuplicateRows(rows: GameData[]) {
+  const seen = new Set<string>()
+  return rows.filter((row) => {
+    const key = [row.pressed, row.y, row.vel, row.dist, row.mid1, row.mid2].join(",")
+    if (seen.has(key)) return true
+    seen.add(key)
+    return false
+  })
+}
+
+const stateKey = (row: GameData) =>
+  (Object.keys(SAME_STATE) as (keyof typeof SAME_STATE)[])
+    .map((column) => Math.round(row[column] / SAME_STATE[column]))
+    .join(",")
+
+// Rows whose near-identical states were labelled both ways, plus how many rows share their state with any other
+// row. The minority label of each state is what the fix drops; ties are left alone because there is no way to
+// tell which label was meant.
+export function findContradictions(rows: GameData[]) {
+  const states = new Map<string, GameData[]>()
+  for (const row of rows) {
+    const key = stateKey(row)
+    if (!states.has(key)) states.set(key, [])
+    states.get(key)!.push(row)
+  }
+
+  const contradictory: GameData[] = []
+  const minority: GameData[] = []
+  let repeated = 0
+  for (const group of states.values()) {
+    if (group.length > 1) repeated += group.length
+    const jumps = group.filter((row) => row.pressed === 1)
+    if (jumps.length === 0 || jumps.length === group.length) continue
+    contradictory.push(...group)
+    const waits = group.filter((row) => row.pressed !== 1)
+    if (jumps.length !== waits.length) minority.push(...(jumps.length < waits.length ? jumps : waits))
+  }
+  return { contradictory, minority, repeated }
+}
+
+// Frames of the bird hovering at its start height before the first jump: no velocity, no decision made
+export function findIdleRows(rows: GameData[]) {
+  return rows.filter((row) => row.vel === 0 && Math.abs(row.y - BIRD_START_Y) <= 2)
+}
+
+export function diagnoseDataset(rows: GameData[], context: DiagnosticsContext): DiagnosticsReport {
+  const jumps = rows.filter((row) => row.pressed === 1).length
+  const jumpShare = jumps / Math.max(1, rows.length)
+  const invalid = findInvalidRows(rows, context)
+  const duplicates = findDuplicateRows(rows)
+  const { contradictory, minority, repeated } = findContradictions(rows)
+  const idle = findIdleRows(rows)
+  const contradictionShare = contradictory.length / Math.max(1, repeated)
+
+  const checks: DiagnosticCheck[] = [
+    {
+      id: "balance",
+      status: jumps === 0 ? "fail" : jumpShare < JUMP_SHARE.min || jumpShare > JUMP_SHARE.max ? "warn" : "pass",
+      title: "Class balance",
+      detail:
+        jumps === 0
+          ? "No jumps recorded, so there is nothing to learn when to jump from."
+          : `${jumps} jumps and ${rows.length - jumps} no-jumps (${percent(jumps, rows.length)} jumps).` +
+            (jumpShare < JUMP_SHARE.min ? " Record more runs with jumps." : "") +
+            (jumpShare > JUMP_SHARE.max ? " More jumps than waits; was the button held down?" : ""),
+      affected: 0,
+      fix: null,
+    },
+    {
+      id: "invalid",
+      status: invalid.length > 0 ? "fail" : "pass",
+      title: "Impossible values",
+      detail:
+        invalid.length > 0
+          ? `${invalid.length} rows have missing numbers, a bird outside the screen or a label other than 0/1.`
+          : "Every value is a number inside the screen.",
+      affected: invalid.length,
+      fix: invalid.length > 0 ? "Drop these rows" : null,
+    },
+    {
+      id: "duplicates",
+      status: duplicates.length / Math.max(1, rows.length) > DUPLICATE_SHARE_WARN ? "warn" : "pass",
+      title: "Duplicate rows",
+      detail:
+        duplicates.length > 0
+          ? `${duplicates.length} rows (${percent(duplicates.length, rows.length)}) repeat an earlier row exactly, ` +
+            "often from uploading the same file twice."
+          : "No row appears twice.",
+      affected: duplicates.length,
+      fix: duplicates.length > 0 ? "Keep one copy of each" : null,
+    },
+    {
+      id: "contradictions",
+      status: repeated >= MIN_REPEATED_ROWS && contradictionShare > CONTRADICTION_SHARE_WARN ? "warn" : "pass",
+      title: "Contradictory labels",
+      detail:
+        contradictory.length > 0
+          ? `${contradictory.length} of ${repeated} rows in repeated situations ` +
+            `(${percent(contradictory.length, repeated)}) got different actions: you jumped once and waited another ` +
+            "time. A few are normal; many look like random play."
+          : "Near-identical situations always got the same action.",
+      affected: minority.length,
+      fix: minority.length > 0 ? "Drop the minority action" : null,
+    },
+    {
+      id: "idle",
+      status: idle.length > 0 ? "warn" : "pass",
+      title: "Idle hovering",
+      detail:
+        idle.length > 0
+          ? `${idle.length} rows were recorded while the bird hovered at the start, before anyone played.`
+          : "No rows from the hover before the first jump.",
+      affected: idle.length,
+      fix: idle.length > 0 ? "Drop these rows" : null,
+    },
+  ]
+
+  return { status: worst(checks.map((check) => check.status)), rowCount: rows.length, checks }
+}
+
+// The rows a check's fix removes
+export function rowsToFix(id: CheckId, rows: GameData[], context: DiagnosticsContext): GameData[] {
+  switch (id) {
+    case "invalid":
+      return findInvalidRows(rows, context)
+    case "duplicates":
+      return findDuplicateRows(rows)
+    case "contradictions":
+      return findContradictions(rows).minority
+    case "idle":
+      return findIdleRows(rows)
+    case "balance":
+      return []
+  }
+}
@@ -0,0 +1,134 @@
+import type { CrossValidationReport } from "./cross-validation"
+import type { TrainingComposition } from "./expert-data"
+
+// Binary classification report for the "jump" / "no jump" decision.
+
+export interface ConfusionMatrix {
+  tp: number // Predicted jump, was a jump
+  fp: number // Predicted jump, was no jump
+  fn: number // Predicted no jump, was a jump
+  tn: number // Predicted no jump, was no jump
+}
+
+export interface ThresholdMetrics {
+  threshold: number
+  accuracy: number
+  precision: number
+  recall: number
+  specificity: number
+  f1: number
+}
+
+export interface RocPoint {
+  threshold: number
+  fpr: number
+  tpr: number
+}
+
+export interface PrPoint {
+  threshold: number
+  recall: number
+  precision: number
+}
+
+export interface EvaluationReport {
+  sampleCount: number
+  positives: number
+  negatives: number
+  confusion: ConfusionMatrix
+  metrics: ThresholdMetrics
+  roc: RocPoint[]
+  rocAuc: number
+  pr: PrPoint[]
+  prAuc: number // Average precision
+  crossValidation?: CrossValidationReport // Only when k-fold cross-validation was requested
+  splitByRow?: boolean // Too few runs to hold whole ones out, so the test frames have neighbours in training
+  composition?: TrainingComposition // Student and expert rows the model was trained on; missing in older reports
+}
+
+// Curves are thinned to this many points; enough for a chart, small enough to post from a worker
+const MAX_CURVE_POINTS = 100
+
+export function confusionAt(predictions: ArrayLike<number>, labels: ArrayLike<number>, threshold: number) {
+  const confusion: ConfusionMatrix = { tp: 0, fp: 0, fn: 0, tn: 0 }
+  for (let i = 0; i < predictions.length; i++) {
+    const pred = predictions[i] > threshold ? 1 : 0
+    const actual = labels[i] === 1 ? 1 : 0
+    if (pred === 1 && actual === 1) confusion.tp++
+    else if (pred === 1 && actual === 0) confusion.fp++
+    else if (pred === 0 && actual === 1) confusion.fn++
+    else confusion.tn++
+  }
+  return confusion
+}
+
+export function metricsFromConfusion({ tp, fp, fn, tn }: ConfusionMatrix, threshold: number): ThresholdMetrics {
+  const precision = tp / (tp + fp) || 0
+  const recall = tp / (tp + fn) || 0
+  return {
+    threshold,
+    accuracy: (tp + tn) / (tp + tn + fp + fn) || 0,
+    precision,
+    recall,
+    specificity: tn / (tn + fp) || 0,
+    f1: (2 * precision * recall) / (precision + recall) || 0,
+  }
+}
+
+function thin<T>(points: T[]): T[] {
+  if (points.length <= MAX_CURVE_POINTS) return points
+  const step = (points.length - 1) / (MAX_CURVE_POINTS - 1)
+  return Array.from({ length: MAX_CURVE_POINTS }, (_, i) => points[Math.round(i * step)])
+}
+
+export function evaluateBinary(
+  predictions: ArrayLike<number>,
+  labels: ArrayLike<number>,
+  threshold = 0.5,
+): EvaluationReport {
+  const confusion = confusionAt(predictions, labels, threshold)
+  const positives = confusion.tp + confusion.fn
+  const negatives = confusion.fp + confusion.tn
+
+  // Sweep the threshold from high to low; every distinct score is one point on both curves
+  const order = Array.from({ length: predictions.length }, (_, i) => i).sort((a, b) => predictions[b] - predictions[a])
+  const roc: RocPoint[] = [{ threshold: 1, fpr: 0, tpr: 0 }]
+  const pr: PrPoint[] = []
+  let tp = 0
+  let fp = 0
+  let rocAuc = 0
+  let prAuc = 0
+  let prevRecall = 0
+
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k]
+    if (labels[i] === 1) tp++
+    else fp++
+
+    const isLastOfScore = k === order.length - 1 || predictions[order[k + 1]] !== predictions[i]
+    if (!isLastOfScore) continue
+
+    const tpr = positives > 0 ? tp / positives : 0
+    const fpr = negatives > 0 ? fp / negatives : 0
+    const prev = roc[roc.length - 1]
+    rocAuc += ((fpr - prev.fpr) * (tpr + prev.tpr)) / 2
+    roc.push({ threshold: predictions[i], fpr, tpr })
+
+    const precision = tp / (tp + fp)
+    prAuc += (tpr - prevRecall) * precision
+    prevRecall = tpr
+    pr.push({ threshold: predictions[i], recall: tpr, precision })
+  }
+
+  return {
+    sampleCount: predictions.length,
+    positives,
+    negatives,
+    confusion,
+    metrics: metricsFromConfusion(confusion, threshold),
+    roc: thin(roc),
+    rocAuc,
+    pr: thin(pr),
+    prAuc,
+  }
+}
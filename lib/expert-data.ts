@@ -0,0 +1,117 @@
+import { datasetRows } from "./dataset"
+import type { Canvas } from "./dataset-file"
+import { parseDataset, type DatasetFormat } from "./dataset-formats"
+import { createRng } from "./random"
+import type { GameData } from "./simulation"
+
+// Bundled gameplay that can be mixed into a student's recording before training, so a class can compare
+// "your data alone", "your data plus a pre-trained base" and "your data plus that base with spoiled labels".
+
+export interface ExpertDataset {
+  id: string
+  name: string
+  description: string
+  quality: number // 1 to 5 stars: how well a model trained on this data alone flies
+  file: string // Path under public/
+  format: DatasetFormat
+}
+
+export const EXPERT_LIBRARY: ExpertDataset[] = [
+  {
+    id: "steady-pilot",
+    name: "Steady pilot",
+    description: "An experienced player's runs on the default canvas. Clean, consistent jumps.",
+    quality: 5,
+    file: "/existing_game_play.csv",
+    format: "csv",
+  },
+]
+
+// How much of one dataset to mix in, and how many of its labels to spoil on the way
+export interface ExpertShare {
+  share: number // Rows to mix in, as a share of the student's own rows
+  labelNoise: number // Share of jump / no jump labels swapped on load, to show what bad data does
+}
+
+// Dataset id → its share. Missing ids mix in nothing.
+export type ExpertMix = Record<string, ExpertShare>
+
+export const EXPERT_SHARES = [0, 0.25, 0.5, 1, 2]
+
+export const LABEL_NOISE_LEVELS = [
+  { value: 0, label: "Clean labels" },
+  { value: 0.2, label: "1 in 5 swapped" },
+  { value: 0.5, label: "Half swapped" },
+]
+
+const NO_SHARE: ExpertShare = { share: 0, labelNoise: 0 }
+
+export const expertShare = (mix: ExpertMix, id: string) => mix[id] ?? NO_SHARE
+
+// Names the noise too, so a composition never passes spoiled labels off as the expert's own
+export function expertLabel(name: string, labelNoise: number) {
+  return labelNoise > 0 ? `${name}, ${Math.round(labelNoise * 100)}% labels swapped` : name
+}
+
+// Level 1 is about fine-tuning a pre-trained base, so it starts with the steady pilot mixed in 1:1
+export function defaultExpertMix(level: string): ExpertMix {
+  return level === "finetuning" ? { "steady-pilot": { share: 1, labelNoise: 0 } } : {}
+}
+
+export interface TrainingComposition {
+  student: number
+  experts: { id: string; name: string; rows: number }[]
+}
+
+export const compositionTotal = (composition: TrainingComposition) =>
+  composition.experts.reduce((sum, expert) => sum + expert.rows, composition.student)
+
+// Rows each mixed-in dataset would add to `studentRows`, before files are loaded (so not capped at file size)
+export function plannedComposition(mix: ExpertMix, studentRows: number): TrainingComposition {
+  return {
+    student: studentRows,
+    experts: EXPERT_LIBRARY.filter(({ id }) => expertShare(mix, id).share > 0).map(({ id, name }) => ({
+      id,
+      name: expertLabel(name, mix[id].labelNoise),
+      rows: Math.round(mix[id].share * studentRows),
+    })),
+  }
+}
+
+// Loads and mixes the chosen datasets. Each contributes its first rows, so a dataset always adds the same
+// stretches of play; label noise is drawn from `seed` so a training run stays reproducible. A dataset that
+// fails to load is left out with a warning rather than failing the training run.
+export async function loadExpertRows(
+  mix: ExpertMix,
+  studentRows: number,
+  canvas: Canvas,
+  seed: number,
+): Promise<{ rows: GameData[]; composition: TrainingComposition }> {
+  const rows: GameData[] = []
+  const composition: TrainingComposition = { student: studentRows, experts: [] }
+  for (const expert of EXPERT_LIBRARY) {
+    const { share, labelNoise } = expertShare(mix, expert.id)
+    const wanted = Math.round(share * studentRows)
+    if (wanted === 0) continue
+    const name = expertLabel(expert.name, labelNoise)
+    try {
+      const response = await fetch(expert.file)
+      // Same parser as uploads, so bundled files are validated and rescaled to this canvas
+      const { episodes, report } = parseDataset(await response.text(), expert.format, [], canvas)
+      if (!report.ok) throw new Error(report.error ?? "No valid data found")
+
+      const rng = createRng(seed)
+      const picked = datasetRows(episodes)
+        .slice(0, wanted)
+        .map((row) => (rng() < labelNoise ? { ...row, pressed: 1 - row.pressed } : row))
+      if (picked.length < wanted) {
+        console.warn(`[v0] ${name} has only ${picked.length} rows; ${wanted} were asked for`)
+      }
+      rows.push(...picked)
+      composition.experts.push({ id: expert.id, name, rows: picked.length })
+    } catch (error) {
+      console.warn(`[v0] Failed to load expert data "${name}":`, error)
+    }
+  }
+  return { rows, composition }
+}
@@ -0,0 +1,71 @@
+import { TICKS_PER_SECOND, type GameData, type PhysicsConfig } from "./simulation"
+
+// The one place that decides what the model sees. Recorded rows (GameData) keep the raw game state in
+// pixels; every feature is computed from a row here, for training and for live play alike.
+// To add a feature, add an entry to FEATURES and it shows up in the Experiment panel.
+
+export type FeatureContext = Pick<PhysicsConfig, "width" | "height" | "pipeSpeed">
+
+export interface FeatureDefinition {
+  label: string
+  description: string
+  compute: (row: GameData, context: FeatureContext) => number // Scaled to roughly -1..1
+}
+
+export const FEATURES = {
+  y: {
+    label: "Bird height",
+    description: "How far down the screen the bird is",
+    compute: (row, { height }) => row.y / height,
+  },
+  vel: {
+    label: "Velocity",
+    description: "Vertical speed, positive while falling",
+    compute: (row) => row.vel / 10,
+  },
+  dist: {
+    label: "Distance to pipe",
+    description: "Horizontal distance to the next pipe",
+    compute: (row, { width }) => row.dist / width,
+  },
+  mid1: {
+    label: "Next gap",
+    description: "Height of the next gap's centre",
+    compute: (row, { height }) => row.mid1 / height,
+  },
+  mid2: {
+    label: "Gap after next",
+    description: "Height of the centre of the gap after the next one",
+    compute: (row, { height }) => row.mid2 / height,
+  },
+  gapOffset: {
+    label: "Distance to gap centre",
+    description: "How far the next gap's centre is below the bird (negative when above)",
+    compute: (row, { height }) => (row.mid1 - row.y) / height,
+  },
+  timeToPipe: {
+    label: "Time to reach pipe",
+    description: "Seconds until the bird reaches the next pipe",
+    compute: (row, { pipeSpeed }) => row.dist / pipeSpeed / TICKS_PER_SECOND,
+  },
+  gapShift: {
+    label: "Gap shift",
+    description: "How much higher or lower the gap after next is than the next one",
+    compute: (row, { height }) => (row.mid2 - row.mid1) / height,
+  },
+} satisfies Record<string, FeatureDefinition>
+
+export type FeatureId = keyof typeof FEATURES
+
+export const FEATURE_IDS = Object.keys(FEATURES) as FeatureId[]
+
+// The original five inputs; the neuroevolution and RL agents always use these
+export const DEFAULT_FEATURES: FeatureId[] = ["y", "vel", "dist", "mid1", "mid2"]
+
+export function featureVector(row: GameData, features: FeatureId[], context: FeatureContext) {
+  return features.map((id) => FEATURES[id].compute(row, context))
+}
+
+export function featureLabels(features: FeatureId[]) {
+  return features.map((id) => FEATURES[id]?.label ?? id)
+}
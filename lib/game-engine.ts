@@ -1,112 +1,191 @@
-import { MLTrainer } from "./ml-trainer"
+import {
+  NeuralClassifier,
+  restoreClassifier,
+  serializeClassifier,
+  type Classifier,
+  type Explanation,
+} from "./classifiers"
+import { classifierPolicy, CROWD_COLORS, CrowdRun, jumpThreshold, type CrowdMember, type CrowdResult } from "./crowd"
+import type { EvaluationReport } from "./evaluation"
+import {
+  countRows,
+  createEpisode,
+  datasetRows,
+  removeEpisode,
+  removeRows,
+  rowEpisodeIds,
+  type Dataset,
+  type Episode,
+  type EpisodeEnd,
+} from "./dataset"
+import type { ImportReport } from "./dataset-file"
+import {
+  formatExtension,
+  formatFromFileName,
+  formatMimeType,
+  parseDataset,
+  serializeDataset,
+  type DatasetFormat,
+} from "./dataset-formats"
+import { diagnoseDataset, rowsToFix, type CheckId, type DiagnosticsReport } from "./diagnostics"
+import { defaultExpertMix, type ExpertMix } from "./expert-data"
+import { featureLabels, featureVector, type FeatureId } from "./features"
+import { occlusionAttribution, type ModelInsights } from "./importance"
+import { Preprocessor, type FeatureStats } from "./preprocessing"
+import { Evolution, type EvolutionConfig, type GenerationStats } from "./neuroevolution"
+import { RLTrainer, type AgentKind, type EpisodeStats, type QHeatmap, type RLConfig } from "./reinforcement"
+import { randomSeed } from "./random"
+import { getTf, loadTf } from "./tf-loader"
+import type { EpochMetrics } from "./ml-trainer"
+import {
+  deleteSavedModel,
+  exportModelZip,
+  fingerprintDataset,
+  importModelZip,
+  listSavedModels,
+  loadSavedModel,
+  renameSavedModel,
+  saveModel,
+  type SavedModelMeta,
+} from "./model-store"
+import { trainInWorker, type TrainingJob } from "./training-client"
+import { DEFAULT_TRAINING_CONFIG, modelFeatures, type TrainingConfig } from "./training-config"
+import { createReplay, parseReplay, ReplayPlayer, serializeReplay, type Replay } from "./replay"
+import {
+  BIRD_START_Y,
+  SAMPLE_EVERY_TICKS,
+  Simulation,
+  TICK_MS,
+  type Bird,
+  type GameData,
+  type Pipe,
+} from "./simulation"
+
+export { Bird, Pipe, Simulation, DEFAULT_PHYSICS, TICKS_PER_SECOND, TICK_MS, SAMPLE_EVERY_TICKS } from "./simulation"
+export type { Position, Velocity, GameData, PhysicsConfig, StepResult } from "./simulation"
+
+export type { FeatureStats } from "./preprocessing"
 
-export interface Position {
-  x: number
-  y: number
-}
-
-export interface Velocity {
-  y: number
-}
+export type GameState = "menu" | "playing" | "dead"
 
-export class Bird {
-  pos: Position
-  vel: Velocity
-  radius: number
-  color: string
+// Rows of bird heights the decision-boundary overlay evaluates the model at
+export const DECISION_BOUNDARY_ROWS = 40
 
-  constructor() {
-    this.pos = { x: 50, y: 300 }
-    this.vel = { y: 0 }
-    this.radius = 20
-    this.color = "#ffd700" // Default gold color for human player
-  }
+export type Level = "finetuning" | "underfitting" | "overfitting"
 
-  reset() {
-    this.pos = { x: 50, y: 300 }
-    this.vel = { y: 0 }
-  }
+export interface CrowdStatus {
+  title: string
+  seed: number
+  tick: number
+  maxTicks: number
+  speed: number
+  finished: boolean
+  results: CrowdResult[] // Best first
 }
 
-export class Pipe {
-  x: number
-  width: number
-  gapSize: number
-  gapCenter: number
-  color: string
-  passed?: boolean
-
-  constructor(canvasHeight: number, x: number, fixedGapCenter?: number) {
-    this.x = x
-    this.width = 40
-    this.gapSize = 200
-    this.gapCenter = fixedGapCenter !== undefined ? fixedGapCenter : Math.random() * (canvasHeight - 300) + 150
-    this.color = "#228b22"
-  }
-
-  get top() {
-    return this.gapCenter - this.gapSize / 2
-  }
-
-  get bottom() {
-    return this.gapCenter + this.gapSize / 2
-  }
+export interface EvolutionStatus {
+  generation: number
+  history: GenerationStats[]
+  fastForwarding: boolean
 }
 
-export interface GameData {
-  pressed: number
-  y: number
-  vel: number
-  dist: number
-  mid1: number
-  mid2: number
+export interface RLStatus {
+  agent: AgentKind
+  episodes: EpisodeStats[]
+  epsilon: number
+  training: boolean
+  heatmap: QHeatmap | null // Tabular agent only
 }
 
-export interface FeatureStats {
-  means: number[]
-  stds: number[]
+// Longest frame gap we try to catch up on (e.g. after the tab was hidden)
+const MAX_FRAME_MS = 250
+// How many finished runs are kept for replay
+const MAX_REPLAYS = 10
+// Crowd member id of the RL agent while it is being watched
+const RL_WATCH_ID = "rl-agent"
+
+const LEVEL_NAMES: Record<Level, string> = {
+  finetuning: "Level 1",
+  underfitting: "Level 2",
+  overfitting: "Level 3",
 }
 
-export type GameState = "menu" | "playing" | "dead"
-
-export type Level = "finetuning" | "underfitting" | "overfitting"
+export interface ReplayStatus {
+  replay: Replay
+  tick: number
+  totalTicks: number
+  speed: number
+  paused: boolean
+}
 
 export class GameEngine {
   canvas: HTMLCanvasElement
   ctx: CanvasRenderingContext2D
-  bird: Bird
-  pipes: Pipe[]
-  score: number
+  sim: Simulation
   highScore: number // Added high score tracking
   state: GameState
   keys: { [key: string]: boolean }
-  gravity: number
-  jumpStrength: number
-  pipeSpeed: number
-  pipeInterval: number
-  nextPipeDist: number
   prevSpace: boolean
+  pendingJump: boolean // Set by clicks and AI decisions, applied on the next tick
   isRecording: boolean
   isAI: boolean
-  dataset: GameData[]
-  model: any // TensorFlow model
+  dataset: Dataset // Recorded runs, one episode per game
+  recordingEpisode: Episode | null // Episode the current game records into, opened by its first row
+  model: any // TensorFlow model, null unless the current classifier is a neural network
+  classifier: Classifier | null // Whatever flies the AI bird
+  aiFeatures: number[] | null // Preprocessed features behind the latest AI decision
+  lastDecision: { prediction: number; threshold: number } | null
+  showDecisionBoundary: boolean
+  // Jump probability per bird height (top row first) with the other features held at their current values
+  decisionBoundary: number[] | null
   featureStats: FeatureStats | null
   aiPredictionCount: number
+  aiLatencyMs: number // Smoothed time one synchronous prediction takes
   jumpScheduled: boolean
   dataBuffer: GameData | null
   framesSinceLastJump: number
   gameOverTime: number
   gameOverDelay: number
+  aiRestartTimer: ReturnType<typeof setTimeout> | null // Pending AI restart after a crash
   gameStarted: boolean
   hoverOffset: number // Added for bird vibration effect
   currentLevel: Level
   fixedGapCenter: number
+  courseSeed: number | null // Locked by a teacher so every run uses the same course
+  trainingSeed: number | null
+  trainingJob: TrainingJob | null
+  trainingConfig: TrainingConfig // Used for the next training run
+  expertMix: ExpertMix // Bundled datasets mixed into the next training run
+  modelConfig: TrainingConfig | null // The config the current model was trained with
+  trainingHistory: EpochMetrics[] // Per-epoch learning curves of the latest training run
+  evaluationReport: EvaluationReport | null // Test-split report card of the current model
+  modelInsights: ModelInsights | null // Feature importance of the current model and its occlusion baseline
+  savedModelId: string | null // "My Models" entry the current model was saved as or loaded from
   isPaused: boolean
   pausedState: {
     gameState: GameState
     gameStarted: boolean
     hoverOffset: number
   } | null
+  // Positions before the latest tick, used to interpolate rendering between ticks
+  prevBirdY: number
+  prevPipeX: Map<Pipe, number>
+  currentReplay: Replay | null
+  replays: Replay[]
+  liveSim: Simulation | null // The game's own simulation, parked while a replay is shown
+  replayPlayer: ReplayPlayer | null
+  replaySpeed: number
+  replayPaused: boolean
+  replayTickBudget: number
+  crowd: CrowdRun | null // Several birds on one course (arena); replaces normal play while set
+  crowdTitle: string
+  crowdSpeed: number
+  crowdModels: any[] // Models loaded only for the crowd, disposed when it ends
+  prevCrowdY: number[]
+  evolution: Evolution | null // Neuroevolution run; each generation is shown as a crowd
+  evolutionFastForwarding: boolean
+  rlTrainer: RLTrainer | null
+  rlTraining: boolean
 
   // Callbacks for UI updates
   onScoreUpdate?: (score: number) => void
@@ -115,6 +194,15 @@ export class GameEngine {
   onTrainingStatusUpdate?: (status: string) => void
   onProgressUpdate?: (percent: number, text: string) => void
   onHighScoreUpdate?: (highScore: number) => void
+  onSeedChange?: (seed: number) => void
+  onReplaysUpdate?: (replays: Replay[]) => void
+  onReplayStatusChange?: (status: ReplayStatus | null) => void
+  onAILatencyUpdate?: (latencyMs: number) => void
+  onEpochEnd?: (metrics: EpochMetrics, history: EpochMetrics[]) => void
+  onSavedModelsUpdate?: (models: SavedModelMeta[]) => void
+  onCrowdStatusChange?: (status: CrowdStatus | null) => void
+  onEvolutionUpdate?: (status: EvolutionStatus | null) => void
+  onRLUpdate?: (status: RLStatus | null) => void
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas
@@ -122,46 +210,123 @@ export class GameEngine {
     if (!ctx) throw new Error("Could not get canvas context")
     this.ctx = ctx
 
-    this.bird = new Bird()
-    this.pipes = []
-    this.score = 0
+    this.sim = new Simulation({ width: canvas.width, height: canvas.height })
     this.highScore = 0 // Initialize high score
     this.state = "menu"
     this.keys = {}
-    this.gravity = 0.2
-    this.jumpStrength = -5
-    this.pipeSpeed = 2
-    this.pipeInterval = 250
-    this.nextPipeDist = 0
     this.prevSpace = false
+    this.pendingJump = false
     this.isRecording = false
     this.isAI = false
     this.dataset = []
+    this.recordingEpisode = null
     this.model = null
+    this.classifier = null
+    this.aiFeatures = null
+    this.lastDecision = null
+    this.showDecisionBoundary = false
+    this.decisionBoundary = null
     this.featureStats = null
     this.aiPredictionCount = 0
+    this.aiLatencyMs = 0
     this.jumpScheduled = false
     this.dataBuffer = null
     this.framesSinceLastJump = 0
     this.gameOverTime = 0
     this.gameOverDelay = 1000 // 1 second delay
+    this.aiRestartTimer = null
     this.gameStarted = false
     this.hoverOffset = 0
     this.currentLevel = "finetuning"
     this.fixedGapCenter = this.canvas.height / 2
+    this.courseSeed = null
+    this.trainingSeed = null
+    this.trainingJob = null
+    this.trainingConfig = DEFAULT_TRAINING_CONFIG
+    this.expertMix = defaultExpertMix(this.currentLevel)
+    this.modelConfig = null
+    this.trainingHistory = []
+    this.evaluationReport = null
+    this.modelInsights = null
+    this.savedModelId = null
     this.isPaused = false
     this.pausedState = null
+    this.prevBirdY = this.bird.pos.y
+    this.prevPipeX = new Map()
+    this.currentReplay = null
+    this.replays = []
+    this.liveSim = null
+    this.replayPlayer = null
+    this.replaySpeed = 1
+    this.replayPaused = false
+    this.replayTickBudget = 0
+    this.crowd = null
+    this.crowdTitle = ""
+    this.crowdSpeed = 1
+    this.crowdModels = []
+    this.prevCrowdY = []
+    this.evolution = null
+    this.evolutionFastForwarding = false
+    this.rlTrainer = null
+    this.rlTraining = false
 
     this.setupEventListeners()
-    this.setupDataCollection()
     this.startGameLoop()
   }
 
+  // The simulation owns the world; these accessors keep the existing UI code working
+  get bird(): Bird {
+    return this.sim.bird
+  }
+
+  get pipes(): Pipe[] {
+    return this.sim.pipes
+  }
+
+  set pipes(pipes: Pipe[]) {
+    this.sim.pipes = pipes
+  }
+
+  get score() {
+    return this.sim.score
+  }
+
+  set score(score: number) {
+    this.sim.score = score
+  }
+
+  get gravity() {
+    return this.sim.config.gravity
+  }
+
+  get jumpStrength() {
+    return this.sim.config.jumpStrength
+  }
+
+  get pipeSpeed() {
+    return this.sim.config.pipeSpeed
+  }
+
+  get pipeInterval() {
+    return this.sim.config.pipeInterval
+  }
+
+  get seed() {
+    return this.sim.seed
+  }
+
+  setCourseSeed(seed: number | null) {
+    this.courseSeed = seed
+    console.log(seed === null ? "[v0] Course seed unlocked" : `[v0] Course seed locked to ${seed}`)
+  }
+
   setLevel(level: Level) {
     this.currentLevel = level
+    this.expertMix = defaultExpertMix(level)
     this.fixedGapCenter = this.canvas.height / 2 // Reset fixed gap center
 
     this.isRecording = false
+    this.finishEpisode("stopped")
     console.log(`[v0] Level set to: ${level}, recording stopped`)
   }
 
@@ -169,8 +334,8 @@ export class GameEngine {
     this.canvas.tabIndex = 0
 
     document.addEventListener("keydown", (e) => {
-      // Ignore all input when paused
-      if (this.isPaused) return
+      // Ignore all input when paused, watching a replay or running a crowd
+      if (this.isPaused || this.replayPlayer || this.crowd) return
 
       this.keys[e.key] = true
       if (e.key === " ") {
@@ -197,11 +362,11 @@ export class GameEngine {
 
     this.canvas.addEventListener("click", (e) => {
       e.preventDefault()
-      // Ignore all input when paused
-      if (this.isPaused) return
+      // Ignore all input when paused, watching a replay or running a crowd
+      if (this.isPaused || this.replayPlayer || this.crowd) return
 
       if (this.state === "playing" && !this.isAI) {
-        this.bird.vel.y = this.jumpStrength
+        this.pendingJump = true
         this.jumpScheduled = true
         this.gameStarted = true // Start the game on first click
       } else if (
@@ -213,151 +378,211 @@ export class GameEngine {
     })
   }
 
-  private setupDataCollection() {
-    setInterval(() => {
-      // Don't collect data when paused
-      if (this.isPaused || this.state !== "playing") return
-
-      if (this.state === "playing") {
-        if (this.isRecording && this.gameStarted) {
-          const maxDataPoints = this.currentLevel === "underfitting" ? 50 : null
-
-          if (maxDataPoints && this.dataset.length >= maxDataPoints) {
-            // Stop recording automatically for underfitting level
-            this.pauseRecording()
-            console.log(
-              `[v0] Recording stopped automatically - reached max data points (${maxDataPoints}) for ${this.currentLevel} level`,
-            )
-          } else {
-            // Save previous frame's data with current frame's action
-            if (this.dataBuffer !== null) {
-              this.dataBuffer.pressed = this.jumpScheduled ? 1 : 0
-              this.dataset.push(this.dataBuffer)
-              this.onDataCountUpdate?.(this.dataset.length)
-            }
-            // Buffer current frame data
-            this.dataBuffer = this.getCurrentData()
-            this.jumpScheduled = false
-          }
-        }
+  // Runs on every sampling tick: records the last sample and lets the AI decide
+  private collectSample() {
+    if (this.isRecording && this.gameStarted) {
+      const maxDataPoints = this.currentLevel === "underfitting" ? 50 : null
 
-        if (this.isAI && this.model) {
-          this.makeAIPrediction()
+      if (maxDataPoints && countRows(this.dataset) >= maxDataPoints) {
+        // Stop recording automatically for underfitting level
+        this.pauseRecording()
+        console.log(
+          `[v0] Recording stopped automatically - reached max data points (${maxDataPoints}) for ${this.currentLevel} level`,
+        )
+      } else {
+        // Save previous sample's data with the action taken since
+        if (this.dataBuffer !== null) {
+          this.dataBuffer.pressed = this.jumpScheduled ? 1 : 0
+          this.recordRow(this.dataBuffer)
+          this.onDataCountUpdate?.(countRows(this.dataset))
         }
+        // Buffer current tick's data
+        this.dataBuffer = this.getCurrentData()
+        this.jumpScheduled = false
       }
-    }, 100)
+    }
+
+    if (this.isAI && this.classifier) {
+      this.makeAIPrediction()
+    }
+  }
+
+  private recordRow(row: GameData) {
+    if (!this.recordingEpisode) {
+      this.recordingEpisode = createEpisode(this.dataset, {
+        level: this.currentLevel,
+        seed: this.seed,
+        player: this.isAI ? "ai" : "human",
+      })
+      this.dataset.push(this.recordingEpisode)
+    }
+    this.recordingEpisode.rows.push(row)
+  }
+
+  // Stamps the outcome on the episode being recorded; the next recorded row opens a new one
+  private finishEpisode(end: EpisodeEnd) {
+    if (!this.recordingEpisode) return
+    this.recordingEpisode.finalScore = this.score
+    this.recordingEpisode.end = end
+    this.recordingEpisode = null
   }
 
+  // Called on sampling ticks. Inference is synchronous on the already-loaded backend, so the
+  // decision always lands on the very next tick instead of whenever a promise resolves.
   makeAIPrediction() {
-    this.aiPredictionCount++
+    if (!this.classifier || (this.classifier.algorithm === "neural" && !getTf())) return
 
+    this.aiPredictionCount++
     const rawFeatures = this.getRawFeatures()
     const features = this.preprocessFeatures(rawFeatures)
+    this.aiFeatures = features
+
+    const start = performance.now()
+    const pred = this.classifier.predict([features])[0]
+    const latency = performance.now() - start
+    this.aiLatencyMs = this.aiLatencyMs === 0 ? latency : this.aiLatencyMs * 0.9 + latency * 0.1
+    if (this.aiPredictionCount % 10 === 0) {
+      this.onAILatencyUpdate?.(this.aiLatencyMs)
+    }
 
-    import("@tensorflow/tfjs")
-      .then((tf) => {
-        const xs = tf.tensor2d([features])
-        const pred = this.model.predict(xs).dataSync()[0]
-        xs.dispose()
-
-        // Dynamic threshold based on frames since last jump
-        const baseThreshold = 0.5
-        const adjustedThreshold = this.framesSinceLastJump < 10 ? 0.7 : baseThreshold
-        const shouldJump = pred > adjustedThreshold
-
-        // Console logging for debugging
-        if (this.aiPredictionCount % 10 === 0) {
-          // Log every 10th prediction to avoid spam
-          console.log(`AI Decision - Pred: ${pred.toFixed(3)}, Jump: ${shouldJump}, Y: ${this.bird.pos.y.toFixed(0)}`)
-        }
+    // Dynamic threshold based on frames since last jump
+    const adjustedThreshold = jumpThreshold(this.framesSinceLastJump)
+    const shouldJump = pred > adjustedThreshold
+    this.lastDecision = { prediction: pred, threshold: adjustedThreshold }
+    if (this.showDecisionBoundary) this.decisionBoundary = this.computeDecisionBoundary()
+    this.currentReplay?.decisions.push({
+      tick: this.sim.tick,
+      prediction: pred,
+      threshold: adjustedThreshold,
+      jumped: shouldJump,
+    })
 
-        if (shouldJump) {
-          this.bird.vel.y = this.jumpStrength
-          this.framesSinceLastJump = 0
-          console.log(`AI Jumped! Pred=${pred.toFixed(3)}, Y=${this.bird.pos.y.toFixed(0)}`)
-        } else {
-          this.framesSinceLastJump++
-        }
-      })
-      .catch((error) => {
-        console.error("Failed to load TensorFlow.js for prediction:", error)
-      })
+    // Console logging for debugging
+    if (this.aiPredictionCount % 10 === 0) {
+      // Log every 10th prediction to avoid spam
+      console.log(`AI Decision - Pred: ${pred.toFixed(3)}, Jump: ${shouldJump}, Y: ${this.bird.pos.y.toFixed(0)}`)
+    }
+
+    if (shouldJump) {
+      this.pendingJump = true
+      this.framesSinceLastJump = 0
+      console.log(`AI Jumped! Pred=${pred.toFixed(3)}, Y=${this.bird.pos.y.toFixed(0)}`)
+    } else {
+      this.framesSinceLastJump++
+    }
   }
 
-  getRawFeatures() {
-    const next = this.getNextPipe(0)
-    const nextNext = this.getNextPipe(1)
-    return [
-      this.bird.pos.y / this.canvas.height,
-      this.bird.vel.y / 10,
-      next ? (next.x - this.bird.pos.x) / this.canvas.width : 1,
-      next ? next.gapCenter / this.canvas.height : this.bird.pos.y / this.canvas.height,
-      nextNext ? nextNext.gapCenter / this.canvas.height : this.bird.pos.y / this.canvas.height,
-    ]
-  }
-
-  preprocessFeatures(rawFeatures: number[]): number[] {
-    // First normalize by canvas dimensions (like original game)
-    const normalizedFeatures = [
-      rawFeatures[0], // y already normalized by canvas height
-      rawFeatures[1], // vel already normalized by 10
-      rawFeatures[2], // dist already normalized by canvas width
-      rawFeatures[3], // mid1 already normalized by canvas height
-      rawFeatures[4], // mid2 already normalized by canvas height
-    ]
-
-    // Then apply standardization if stats are available
-    if (!this.featureStats) return normalizedFeatures
-
-    return normalizedFeatures.map((val, i) => {
-      const standardized = (val - this.featureStats!.means[i]) / (this.featureStats!.stds[i] || 1)
-      return Math.max(-3, Math.min(3, standardized)) // Clamp to prevent extreme values
+  // Loads the backend once and runs a throwaway prediction so shader compilation
+  // does not land on the first real decision
+  async setModel(model: any) {
+    const tf = await loadTf()
+    tf.tidy(() => {
+      model.predict(tf.zeros([1, this.modelFeatures.length]))
     })
+    if (model !== this.model) this.classifier?.dispose() // tfjs only frees a replaced network's tensors by hand
+    this.model = model
+    this.classifier = new NeuralClassifier(model)
+    this.aiFeatures = null
+    this.decisionBoundary = null
+    this.aiLatencyMs = 0
   }
 
-  computeStats(features: number[][]) {
-    const n = features.length
-    const means = new Array(5).fill(0)
-    const stds = new Array(5).fill(0)
+  // Logistic regression, k-NN and decision trees are plain JavaScript and need no warm-up
+  setClassifier(classifier: Classifier) {
+    if (classifier !== this.classifier) this.classifier?.dispose()
+    this.model = null
+    this.classifier = classifier
+    this.aiFeatures = null
+    this.decisionBoundary = null
+    this.aiLatencyMs = 0
+  }
 
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < 5; j++) {
-        means[j] += features[i][j] / n
-      }
-    }
+  // Asks the model "would you jump if the bird were here instead?" for every row of the screen.
+  // All rows go through predict as one batch so a neural network only runs once.
+  private computeDecisionBoundary() {
+    if (!this.classifier) return null
+    const data = this.getCurrentData()
+    const batch = Array.from({ length: DECISION_BOUNDARY_ROWS }, (_, row) =>
+      this.preprocessFeatures(
+        featureVector(
+          { ...data, y: ((row + 0.5) / DECISION_BOUNDARY_ROWS) * this.canvas.height },
+          this.modelFeatures,
+          this.sim.config,
+        ),
+      ),
+    )
+    return this.classifier.predict(batch)
+  }
 
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < 5; j++) {
-        stds[j] += Math.pow(features[i][j] - means[j], 2) / n
-      }
-    }
+  // Per-input contribution to the latest AI decision (occlusion against the training averages)
+  attributeDecision(): number[] | null {
+    const classifier = this.classifier
+    if (!classifier || !this.modelInsights || !this.aiFeatures) return null
+    if (classifier.algorithm === "neural" && !getTf()) return null
+    return occlusionAttribution((batch) => classifier.predict(batch), this.aiFeatures, this.modelInsights.baseline)
+  }
 
-    return {
-      means,
-      stds: stds.map((s) => Math.sqrt(s) || 1),
-    }
+  setDecisionBoundaryVisible(visible: boolean) {
+    this.showDecisionBoundary = visible
+    if (!visible) this.decisionBoundary = null
   }
 
-  startGame() {
-    this.bird.reset()
-    if (this.currentLevel === "overfitting") {
-      this.pipes = [new Pipe(this.canvas.height, this.canvas.width, this.fixedGapCenter)]
-    } else {
-      this.pipes = [new Pipe(this.canvas.height, this.canvas.width)]
-    }
-    this.nextPipeDist = this.pipeInterval
-    this.score = 0
+  // Explains the latest AI decision, or what the classifier would decide right now if the AI is not flying
+  explainDecision(): Explanation | null {
+    if (!this.classifier) return null
+    if (this.classifier.algorithm === "neural" && !getTf()) return null
+    return this.classifier.explain(this.aiFeatures ?? this.preprocessFeatures(this.getRawFeatures()))
+  }
+
+  // Inputs of the current model (the default five when no model is loaded)
+  get modelFeatures(): FeatureId[] {
+    return modelFeatures(this.modelConfig)
+  }
+
+  modelFeatureLabels() {
+    return featureLabels(this.modelFeatures)
+  }
+
+  // The current model's features computed from the live game, before standardization
+  getRawFeatures() {
+    return featureVector(this.getCurrentData(), this.modelFeatures, this.sim.config)
+  }
+
+  // The exact transform training applied, using the stats saved with the model
+  preprocessFeatures(rawFeatures: number[], featureStats = this.featureStats): number[] {
+    return new Preprocessor(featureStats).transform(rawFeatures)
+  }
+
+  startGame(seed?: number) {
+    this.finishEpisode("stopped")
+    this.sim.reset(
+      seed ?? this.courseSeed ?? randomSeed(),
+      this.currentLevel === "overfitting" ? this.fixedGapCenter : undefined,
+    )
+    // On the overfitting level the user always sees the same gap, while the AI is tested on random ones
+    this.sim.fixedGapCenter = this.currentLevel === "overfitting" && !this.isAI ? this.fixedGapCenter : null
     this.state = "playing"
     this.canvas.focus()
     this.prevSpace = false
+    this.pendingJump = false
     this.keys[" "] = false
     this.aiPredictionCount = 0
     this.framesSinceLastJump = 0
+    this.lastDecision = null
+    this.decisionBoundary = null
     this.dataBuffer = null
     this.jumpScheduled = false
     this.gameStarted = false
     this.hoverOffset = 0
+    this.currentReplay = createReplay(
+      this.sim,
+      this.currentLevel,
+      this.isAI ? "ai" : "human",
+      this.currentLevel === "overfitting" ? this.fixedGapCenter : null,
+    )
+    this.snapshotPositions()
     this.onScoreUpdate?.(this.score)
+    this.onSeedChange?.(this.seed)
     this.onGameStateChange?.(this.state)
   }
 
@@ -365,76 +590,44 @@ export class GameEngine {
     // Don't update game state when paused
     if (this.isPaused || this.state !== "playing") return
 
-    if (this.gameStarted || this.isAI) {
-      // Apply gravity and move bird
-      this.bird.vel.y += this.gravity
-      this.bird.pos.y += this.bird.vel.y
-
-      // Update pipes - only move when game has started
-      this.nextPipeDist -= this.pipeSpeed
-      if (this.nextPipeDist <= 0) {
-        if (this.currentLevel === "overfitting") {
-          if (this.isAI) {
-            this.pipes.push(new Pipe(this.canvas.height, this.canvas.width)) // Random for AI
-          } else {
-            this.pipes.push(new Pipe(this.canvas.height, this.canvas.width, this.fixedGapCenter)) // Fixed for user
-          }
-        } else {
-          this.pipes.push(new Pipe(this.canvas.height, this.canvas.width))
-        }
-        this.nextPipeDist = this.pipeInterval
-      }
-
-      this.pipes = this.pipes.filter((pipe) => pipe.x + pipe.width > 0)
-
-      for (const pipe of this.pipes) {
-        pipe.x -= this.pipeSpeed
-
-        // Collision detection
-        if (
-          this.bird.pos.x + this.bird.radius > pipe.x &&
-          this.bird.pos.x - this.bird.radius < pipe.x + pipe.width &&
-          (this.bird.pos.y - this.bird.radius < pipe.top || this.bird.pos.y + this.bird.radius > pipe.bottom)
-        ) {
-          this.endGame()
-          return
-        }
-
-        // Score update
-        if (pipe.x + pipe.width < this.bird.pos.x && !pipe.passed) {
-          pipe.passed = true
-          this.score++
-          this.onScoreUpdate?.(this.score)
-        }
-      }
-    } else {
-      this.hoverOffset += 0.05 // Slow oscillation speed
-      const vibrationAmount = Math.sin(this.hoverOffset) * 2 // Small 2px vibration
-      this.bird.pos.y = 300 + vibrationAmount // Keep bird at initial position with vibration
-    }
-
     // Handle user input
-    if (!this.isAI) {
-      if (this.keys[" "] && !this.prevSpace) {
-        this.bird.vel.y = this.jumpStrength
-        this.prevSpace = true
-        this.jumpScheduled = true
-        this.gameStarted = true // Start the game on first space press
-      }
+    let jump = this.pendingJump
+    this.pendingJump = false
+    if (!this.isAI && this.keys[" "] && !this.prevSpace) {
+      jump = true
+      this.prevSpace = true
+      this.jumpScheduled = true
+      this.gameStarted = true // Start the game on first space press
     }
 
-    // Check boundaries - only if game has started
     if (this.gameStarted || this.isAI) {
-      if (this.bird.pos.y + this.bird.radius > this.canvas.height || this.bird.pos.y - this.bird.radius < 0) {
+      if (this.currentReplay && this.sim.tick === 0) {
+        this.currentReplay.startY = this.bird.pos.y
+      }
+      const result = this.sim.step(jump)
+      if (jump) this.currentReplay?.jumps.push(this.sim.tick)
+      if (result.scored) {
+        this.onScoreUpdate?.(this.score)
+      }
+      if (result.dead) {
         this.endGame()
         return
       }
+      if (this.sim.tick % SAMPLE_EVERY_TICKS === 0) {
+        this.collectSample()
+      }
+    } else {
+      this.hoverOffset += 0.05 // Slow oscillation speed
+      const vibrationAmount = Math.sin(this.hoverOffset) * 2 // Small 2px vibration
+      this.bird.pos.y = BIRD_START_Y + vibrationAmount // Keep bird at initial position with vibration
     }
   }
 
   endGame() {
+    this.finishEpisode(this.sim.deathCause ?? "stopped")
     this.state = "dead"
     this.gameOverTime = Date.now()
+    this.saveCurrentReplay()
     if (this.score > this.highScore) {
       this.highScore = this.score
       this.onHighScoreUpdate?.(this.highScore)
@@ -442,95 +635,715 @@ export class GameEngine {
     this.onGameStateChange?.(this.state)
     if (this.isAI) {
       console.log(`AI Game Over - Score: ${this.score}`)
-      setTimeout(() => this.startGame(), 1000)
+      this.aiRestartTimer = setTimeout(() => {
+        this.aiRestartTimer = null
+        this.startGame()
+      }, 1000)
     }
   }
 
-  draw() {
+  // A restart that fires after a replay or crowd took over would overwrite their simulation
+  private cancelAIRestart() {
+    if (this.aiRestartTimer === null) return
+    clearTimeout(this.aiRestartTimer)
+    this.aiRestartTimer = null
+  }
+
+  // alpha is how far we are between the previous tick and the current one (0..1)
+  draw(alpha = 1) {
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height)
 
+    if (this.crowd) {
+      this.drawCrowd(this.crowd, alpha)
+      return
+    }
+
+    const birdY = this.prevBirdY + (this.bird.pos.y - this.prevBirdY) * alpha
+    const showModelView = this.isAI && this.showDecisionBoundary && this.state === "playing" && !this.replayPlayer
+
+    if (showModelView && this.decisionBoundary) {
+      this.drawDecisionBoundary(this.decisionBoundary)
+    }
+
     this.ctx.beginPath()
-    this.ctx.arc(this.bird.pos.x, this.bird.pos.y, this.bird.radius, 0, Math.PI * 2)
-    this.ctx.fillStyle = this.isAI ? "#ff69b4" : this.bird.color // Pink for AI, gold for human
+    this.ctx.arc(this.bird.pos.x, birdY, this.bird.radius, 0, Math.PI * 2)
+    const isAIBird = this.replayPlayer ? this.replayPlayer.replay.player === "ai" : this.isAI
+    this.ctx.fillStyle = isAIBird ? "#ff69b4" : this.bird.color // Pink for AI, gold for human
     this.ctx.fill()
     this.ctx.strokeStyle = "#333"
     this.ctx.lineWidth = 2
     this.ctx.stroke()
 
-    // Draw pipes
-    for (const pipe of this.pipes) {
+    this.drawPipes(this.pipes, alpha)
+
+    if (this.replayPlayer) {
+      this.drawReplayDecision(birdY)
+    }
+
+    if (showModelView && this.lastDecision) {
+      this.drawDecisionGauge(this.lastDecision)
+    }
+  }
+
+  // Red rows are heights where the model would jump, blue where it would wait. The dashed lines mark
+  // where it changes its mind at the current threshold. On the overfitting level this usually shows one
+  // narrow band around the memorised gap.
+  private drawDecisionBoundary(probabilities: number[]) {
+    const rowHeight = this.canvas.height / probabilities.length
+    const threshold = this.lastDecision?.threshold ?? 0.5
+    probabilities.forEach((p, row) => {
+      this.ctx.fillStyle = `hsla(${Math.round((1 - p) * 220)}, 85%, 50%, 0.25)`
+      this.ctx.fillRect(0, row * rowHeight, this.canvas.width, rowHeight + 1)
+    })
+
+    this.ctx.setLineDash([6, 4])
+    this.ctx.strokeStyle = "rgba(0, 0, 0, 0.6)"
+    this.ctx.lineWidth = 1
+    for (let row = 1; row < probabilities.length; row++) {
+      if (probabilities[row - 1] > threshold === probabilities[row] > threshold) continue
+      this.ctx.beginPath()
+      this.ctx.moveTo(0, row * rowHeight)
+      this.ctx.lineTo(this.canvas.width, row * rowHeight)
+      this.ctx.stroke()
+    }
+    this.ctx.setLineDash([])
+  }
+
+  // Live prediction as a bar, with the dynamic threshold from makeAIPrediction as a marker
+  private drawDecisionGauge({ prediction, threshold }: { prediction: number; threshold: number }) {
+    const x = 10
+    const y = this.canvas.height - 34
+    const width = 120
+    const height = 10
+
+    this.ctx.fillStyle = "rgba(0, 0, 0, 0.4)"
+    this.ctx.fillRect(x - 4, y - 16, width + 8, height + 22)
+    this.ctx.fillStyle = "rgba(255, 255, 255, 0.3)"
+    this.ctx.fillRect(x, y, width, height)
+    this.ctx.fillStyle = prediction > threshold ? "#ef4444" : "#3b82f6"
+    this.ctx.fillRect(x, y, width * prediction, height)
+
+    this.ctx.strokeStyle = "#fff"
+    this.ctx.lineWidth = 2
+    this.ctx.beginPath()
+    this.ctx.moveTo(x + width * threshold, y - 3)
+    this.ctx.lineTo(x + width * threshold, y + height + 3)
+    this.ctx.stroke()
+
+    this.ctx.font = "bold 11px monospace"
+    this.ctx.fillStyle = "#fff"
+    const verdict = prediction > threshold ? `> ${threshold} JUMP` : `≤ ${threshold} wait`
+    this.ctx.fillText(`p=${prediction.toFixed(2)} ${verdict}`, x, y - 5)
+  }
+
+  private drawPipes(pipes: Pipe[], alpha: number) {
+    for (const pipe of pipes) {
+      const prevX = this.prevPipeX.get(pipe) ?? pipe.x
+      const x = prevX + (pipe.x - prevX) * alpha
       this.ctx.fillStyle = pipe.color
-      this.ctx.fillRect(pipe.x, 0, pipe.width, pipe.top)
-      this.ctx.fillRect(pipe.x, pipe.bottom, pipe.width, this.canvas.height - pipe.bottom)
+      this.ctx.fillRect(x, 0, pipe.width, pipe.top)
+      this.ctx.fillRect(x, pipe.bottom, pipe.width, this.canvas.height - pipe.bottom)
       this.ctx.strokeStyle = "#333"
-      this.ctx.strokeRect(pipe.x, 0, pipe.width, pipe.top)
-      this.ctx.strokeRect(pipe.x, pipe.bottom, pipe.width, this.canvas.height - pipe.bottom)
+      this.ctx.strokeRect(x, 0, pipe.width, pipe.top)
+      this.ctx.strokeRect(x, pipe.bottom, pipe.width, this.canvas.height - pipe.bottom)
     }
   }
 
+  // Every surviving bird in its member colour; they overlap a lot, so they are slightly see-through
+  private drawCrowd(crowd: CrowdRun, alpha: number) {
+    this.ctx.globalAlpha = 0.8
+    crowd.sims.forEach((sim, i) => {
+      if (!sim.alive) return
+      const prevY = this.prevCrowdY[i] ?? sim.bird.pos.y
+      this.ctx.beginPath()
+      this.ctx.arc(sim.bird.pos.x, prevY + (sim.bird.pos.y - prevY) * alpha, sim.bird.radius, 0, Math.PI * 2)
+      this.ctx.fillStyle = crowd.members[i].color
+      this.ctx.fill()
+      this.ctx.strokeStyle = "#333"
+      this.ctx.lineWidth = 2
+      this.ctx.stroke()
+    })
+    this.ctx.globalAlpha = 1
+
+    this.drawPipes(crowd.leader.pipes, alpha)
+  }
+
+  // Shows the AI's latest prediction next to the bird so mis-jumps can be discussed frame by frame
+  private drawReplayDecision(birdY: number) {
+    const decision = this.replayPlayer?.currentDecision()
+    if (!decision) return
+
+    const label = `p=${decision.prediction.toFixed(2)} ${decision.jumped ? "JUMP" : "wait"} (>${decision.threshold})`
+    this.ctx.font = "bold 12px monospace"
+    this.ctx.fillStyle = decision.jumped ? "#b91c1c" : "#1e3a8a"
+    this.ctx.fillText(label, this.bird.pos.x + this.bird.radius + 6, birdY - this.bird.radius)
+  }
+
+  private snapshotPositions() {
+    if (this.crowd) {
+      this.prevCrowdY = this.crowd.sims.map((sim) => sim.bird.pos.y)
+      this.prevPipeX = new Map(this.crowd.leader.pipes.map((pipe) => [pipe, pipe.x]))
+      return
+    }
+    this.prevBirdY = this.bird.pos.y
+    this.prevPipeX = new Map(this.pipes.map((pipe) => [pipe, pipe.x]))
+  }
+
+  // Fixed-timestep loop: the simulation advances in TICK_MS steps no matter how often the
+  // display refreshes, and rendering interpolates between the last two ticks
   private startGameLoop() {
-    const loop = () => {
-      this.update()
-      this.draw()
+    let lastTime = performance.now()
+    let accumulator = 0
+
+    const loop = (now: number) => {
+      accumulator += Math.min(now - lastTime, MAX_FRAME_MS)
+      lastTime = now
+
+      while (accumulator >= TICK_MS) {
+        if (this.crowd) {
+          this.updateCrowd(this.crowd)
+        } else if (this.replayPlayer) {
+          this.updateReplay()
+        } else {
+          this.snapshotPositions()
+          this.update()
+        }
+        accumulator -= TICK_MS
+      }
+
+      const alpha = accumulator / TICK_MS
+      if (!this.replayPlayer) {
+        this.draw(alpha)
+      } else {
+        // Slow replays advance less than one simulation tick per frame, so interpolate across the budget
+        this.draw(this.replayPaused ? 1 : Math.min(1, this.replayTickBudget + alpha * this.replaySpeed))
+      }
       requestAnimationFrame(loop)
     }
-    loop()
+    requestAnimationFrame(loop)
+  }
+
+  // Arena: saved models race each other on one course. Needs at least two to be a contest.
+  async startArena(modelIds: string[]) {
+    if (modelIds.length < 2) throw new Error("Pick at least two models to compare")
+    const tf = await loadTf()
+    const loaded = await Promise.all(modelIds.map((id) => loadSavedModel(id)))
+    const members: CrowdMember[] = loaded.map(({ model, classifier, meta }, i) => {
+      const features = modelFeatures(meta.config)
+      if (model) {
+        tf.tidy(() => {
+          model.predict(tf.zeros([1, features.length]))
+        })
+      }
+      return {
+        id: meta.id,
+        name: meta.name,
+        color: CROWD_COLORS[i % CROWD_COLORS.length],
+        decide: classifierPolicy(classifier, (sim) =>
+          this.preprocessFeatures(featureVector(sim.getCurrentData(), features, sim.config), meta.featureStats),
+        ),
+      }
+    })
+    this.stopEvolution()
+    this.startCrowd("Arena", members, { ownedModels: loaded.map(({ classifier }) => classifier) })
+  }
+
+  startCrowd(
+    title: string,
+    members: CrowdMember[],
+    options: { ownedModels?: any[]; seed?: number; maxTicks?: number } = {},
+  ) {
+    const replacingCrowd = this.crowd !== null
+    this.releaseCrowd()
+    this.stopReplay()
+    if (this.isAI) this.stopAI()
+    this.cancelAIRestart()
+    if (this.state === "playing" && !replacingCrowd) this.endGame()
+    this.isRecording = false
+
+    this.crowd = new CrowdRun(
+      members,
+      options.seed ?? this.courseSeed ?? randomSeed(),
+      this.sim.config,
+      options.maxTicks,
+    )
+    this.crowdTitle = title
+    this.crowdModels = options.ownedModels ?? []
+    this.snapshotPositions()
+    this.state = "playing"
+    this.onGameStateChange?.(this.state)
+    this.onSeedChange?.(this.crowd.seed)
+    this.emitCrowdStatus()
+    console.log(`[v0] ${title}: ${members.length} birds on seed ${this.crowd.seed}`)
+  }
+
+  stopCrowd() {
+    if (!this.crowd) return
+    this.stopEvolution()
+    this.releaseCrowd()
+    this.state = "menu"
+    this.bird.reset()
+    this.pipes = []
+    this.score = 0
+    this.snapshotPositions()
+    this.onScoreUpdate?.(0)
+    this.onGameStateChange?.(this.state)
+    this.emitCrowdStatus()
+  }
+
+  private releaseCrowd() {
+    this.crowd = null
+    for (const model of this.crowdModels) model.dispose()
+    this.crowdModels = []
+  }
+
+  setCrowdSpeed(speed: number) {
+    this.crowdSpeed = speed
+    this.emitCrowdStatus()
+  }
+
+  private updateCrowd(crowd: CrowdRun) {
+    if (this.isPaused || crowd.finished || this.evolutionFastForwarding) return
+
+    this.snapshotPositions()
+    let changed = false
+    for (let i = 0; i < this.crowdSpeed && !crowd.finished; i++) {
+      if (crowd.step().length > 0) changed = true
+    }
+    const score = crowd.leader.score
+    if (score !== this.score) {
+      this.score = score
+      this.onScoreUpdate?.(score)
+    }
+    // The table only needs to move when someone crashes, plus a periodic refresh for the clock
+    if (changed || crowd.finished || crowd.tick % 30 < this.crowdSpeed) this.emitCrowdStatus()
+
+    if (crowd.finished && this.evolution) {
+      this.evolution.advance(crowd.results)
+      this.runEvolutionGeneration()
+    }
+  }
+
+  // Neuroevolution: the population learns by flying, no recorded gameplay needed
+  startEvolution(config: EvolutionConfig) {
+    this.stopEvolution()
+    this.evolution = new Evolution(config, this.courseSeed ?? randomSeed())
+    this.runEvolutionGeneration()
+    console.log(`[v0] Evolution started: ${config.populationSize} birds, seed ${this.evolution.seed}`)
+  }
+
+  stopEvolution() {
+    if (!this.evolution) return
+    this.evolution = null
+    this.evolutionFastForwarding = false
+    this.emitEvolutionStatus()
+  }
+
+  // Runs generations without drawing them, yielding between generations so the page stays responsive
+  async fastForwardEvolution(generations: number) {
+    const evolution = this.evolution
+    if (!evolution || this.evolutionFastForwarding) return
+
+    this.evolutionFastForwarding = true
+    this.emitEvolutionStatus()
+    for (let i = 0; i < generations && this.evolution === evolution; i++) {
+      evolution.runHeadless(this.sim.config)
+      this.emitEvolutionStatus()
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+    if (this.evolution !== evolution) return
+
+    this.evolutionFastForwarding = false
+    this.runEvolutionGeneration()
+  }
+
+  private runEvolutionGeneration() {
+    const evolution = this.evolution
+    if (!evolution) return
+    this.startCrowd(`Generation ${evolution.generation}`, evolution.members(), {
+      seed: evolution.courseSeed(),
+      maxTicks: evolution.maxTicks,
+    })
+    this.emitEvolutionStatus()
+  }
+
+  private emitEvolutionStatus() {
+    const evolution = this.evolution
+    this.onEvolutionUpdate?.(
+      evolution
+        ? {
+            generation: evolution.generation,
+            history: [...evolution.history],
+            fastForwarding: this.evolutionFastForwarding,
+          }
+        : null,
+    )
+  }
+
+  private emitCrowdStatus() {
+    const crowd = this.crowd
+    this.onCrowdStatusChange?.(
+      crowd
+        ? {
+            title: this.crowdTitle,
+            seed: crowd.seed,
+            tick: crowd.tick,
+            maxTicks: crowd.maxTicks,
+            speed: this.crowdSpeed,
+            finished: crowd.finished,
+            results: crowd.ranking(),
+          }
+        : null,
+    )
+  }
+
+  // Reinforcement learning: the agent learns from rewards on headless runs, never from recorded data
+  async createRLAgent(config: RLConfig) {
+    this.resetRLAgent()
+    if (config.agent === "dqn") await loadTf()
+    this.rlTrainer = new RLTrainer(config, this.courseSeed ?? randomSeed())
+    this.emitRLStatus()
+  }
+
+  resetRLAgent() {
+    if (!this.rlTrainer) return
+    this.rlTraining = false
+    // A watched agent would keep predicting with the weights disposed below
+    if (this.crowd?.members.some((member) => member.id === RL_WATCH_ID)) this.stopCrowd()
+    this.rlTrainer.dispose()
+    this.rlTrainer = null
+    this.emitRLStatus()
+  }
+
+  // Fast-forward: episodes run without rendering, yielding to the page between chunks
+  async trainRL(episodes: number) {
+    const trainer = this.rlTrainer
+    if (!trainer || this.rlTraining) return
+
+    this.rlTraining = true
+    this.emitRLStatus()
+    // A DQN episode runs a gradient step per decision, so it yields after every episode
+    const chunk = trainer.config.agent === "tabular" ? 50 : 1
+    let done = 0
+    while (done < episodes && this.rlTraining && this.rlTrainer === trainer) {
+      const end = Math.min(episodes, done + chunk)
+      for (; done < end; done++) trainer.runEpisode(this.sim.config)
+      this.emitRLStatus()
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+    if (this.rlTrainer !== trainer) return
+
+    this.rlTraining = false
+    this.emitRLStatus()
+    console.log(`[v0] RL (${trainer.config.agent}) trained to episode ${trainer.episodes.length}`)
+  }
+
+  stopRLTraining() {
+    this.rlTraining = false
+  }
+
+  watchRLAgent() {
+    const trainer = this.rlTrainer
+    if (!trainer) return
+    const name = trainer.config.agent === "tabular" ? "Q-table agent" : "DQN agent"
+    this.stopEvolution()
+    this.startCrowd(name, [{ id: RL_WATCH_ID, name, color: "#ff69b4", decide: trainer.policy() }])
+  }
+
+  private emitRLStatus() {
+    const trainer = this.rlTrainer
+    this.onRLUpdate?.(
+      trainer
+        ? {
+            agent: trainer.config.agent,
+            episodes: [...trainer.episodes],
+            epsilon: trainer.epsilon,
+            training: this.rlTraining,
+            heatmap: trainer.heatmap(),
+          }
+        : null,
+    )
+  }
+
+  private saveCurrentReplay() {
+    const replay = this.currentReplay
+    this.currentReplay = null
+    if (!replay || this.sim.tick === 0) return
+
+    replay.totalTicks = this.sim.tick
+    replay.finalScore = this.score
+    this.replays = [replay, ...this.replays].slice(0, MAX_REPLAYS)
+    this.onReplaysUpdate?.(this.replays)
+  }
+
+  // Replay playback swaps the player's simulation in for the live one, so drawing,
+  // interpolation and the overlays work unchanged
+  startReplay(replay: Replay) {
+    // A replay takes the whole screen, so crowd, arena and evolution runs end first
+    this.stopEvolution()
+    this.stopCrowd()
+    if (this.isAI) this.stopAI()
+    this.cancelAIRestart()
+    if (this.state === "playing" && !this.replayPlayer) this.endGame()
+    this.isRecording = false
+    if (!this.replayPlayer) this.liveSim = this.sim
+
+    this.replayPlayer = new ReplayPlayer(replay)
+    this.sim = this.replayPlayer.sim
+    this.replayPaused = false
+    this.replayTickBudget = 0
+    this.snapshotPositions()
+    this.emitReplayStatus()
+    console.log(`[Replay] Playing ${replay.player} run with seed ${replay.seed} (${replay.totalTicks} ticks)`)
+  }
+
+  stopReplay() {
+    if (!this.replayPlayer) return
+    this.replayPlayer = null
+    if (this.liveSim) this.sim = this.liveSim
+    this.liveSim = null
+    this.state = "menu"
+    this.bird.reset()
+    this.pipes = []
+    this.snapshotPositions()
+    this.onScoreUpdate?.(0)
+    this.onGameStateChange?.(this.state)
+    this.emitReplayStatus()
+  }
+
+  setReplaySpeed(speed: number) {
+    this.replaySpeed = speed
+    this.emitReplayStatus()
+  }
+
+  toggleReplayPause() {
+    if (!this.replayPlayer) return
+    if (this.replayPaused && this.replayPlayer.finished) {
+      this.replayPlayer.restart()
+      this.onScoreUpdate?.(this.score)
+    }
+    this.replayPaused = !this.replayPaused
+    this.emitReplayStatus()
+  }
+
+  seekReplay(tick: number) {
+    if (!this.replayPlayer) return
+    this.replayPlayer.seek(tick)
+    this.replayTickBudget = 0
+    this.snapshotPositions()
+    this.onScoreUpdate?.(this.score)
+    this.emitReplayStatus()
+  }
+
+  downloadReplay(replay: Replay) {
+    const blob = new Blob([serializeReplay(replay)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `flappy_replay_${replay.player}_seed${replay.seed}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  async loadReplayFile(file: File) {
+    const replay = parseReplay(await file.text())
+    this.replays = [replay, ...this.replays].slice(0, MAX_REPLAYS)
+    this.onReplaysUpdate?.(this.replays)
+    this.startReplay(replay)
+  }
+
+  private updateReplay() {
+    const player = this.replayPlayer
+    if (!player || this.isPaused || this.replayPaused) return
+
+    this.replayTickBudget += this.replaySpeed
+    if (this.replayTickBudget < 1) return
+
+    this.snapshotPositions()
+    while (this.replayTickBudget >= 1) {
+      this.replayTickBudget -= 1
+      const result = player.step()
+      if (result?.scored) this.onScoreUpdate?.(this.score)
+      if (player.finished) {
+        this.replayPaused = true
+        this.replayTickBudget = 0
+        break
+      }
+    }
+    this.emitReplayStatus()
+  }
+
+  private emitReplayStatus() {
+    const player = this.replayPlayer
+    this.onReplayStatusChange?.(
+      player
+        ? {
+            replay: player.replay,
+            tick: player.tick,
+            totalTicks: player.replay.totalTicks,
+            speed: this.replaySpeed,
+            paused: this.replayPaused,
+          }
+        : null,
+    )
   }
 
   // ML-related methods
   getNextPipe(offset = 0): Pipe | null {
-    const upcoming = this.pipes
-      .filter((pipe) => pipe.x + pipe.width > this.bird.pos.x - this.bird.radius)
-      .sort((a, b) => a.x - b.x)
-    return upcoming[offset] || null
+    return this.sim.getNextPipe(offset)
   }
 
   getCurrentData(): GameData {
-    const next = this.getNextPipe(0)
-    const nextNext = this.getNextPipe(1)
-    return {
-      pressed: 0, // Will be set later
-      y: this.bird.pos.y,
-      vel: this.bird.vel.y,
-      dist: next ? next.x - this.bird.pos.x : this.canvas.width,
-      mid1: next ? next.gapCenter : this.canvas.height / 2,
-      mid2: nextNext ? nextNext.gapCenter : this.canvas.height / 2,
-    }
+    return this.sim.getCurrentData()
   }
 
   async trainModel() {
     const minRequired = this.currentLevel === "finetuning" ? 400 : this.currentLevel === "underfitting" ? 50 : 200
 
-    if (this.dataset.length < minRequired) {
+    if (countRows(this.dataset) < minRequired) {
       alert(`Need at least ${minRequired} data points to train effectively for ${this.currentLevel} level!`)
       return
     }
 
     this.onProgressUpdate?.(10, "Preparing dataset...")
 
-    const trainer = new MLTrainer()
+    this.trainingHistory = []
+
+    // A locked course also locks training, so a whole class can reproduce the same model
+    this.trainingSeed = this.courseSeed ?? randomSeed()
 
     try {
-      const result = await trainer.trainModel(
-        this.dataset,
-        this.canvas.height,
-        this.canvas.width,
-        this.currentLevel, // Pass current level to trainer
-        this.onTrainingStatusUpdate,
-        this.onProgressUpdate,
+      this.trainingJob = trainInWorker(
+        {
+          dataset: datasetRows(this.dataset),
+          episodeIds: rowEpisodeIds(this.dataset),
+          canvasHeight: this.canvas.height,
+          canvasWidth: this.canvas.width,
+          level: this.currentLevel, // Pass current level to trainer
+          seed: this.trainingSeed,
+          config: this.trainingConfig,
+          expertMix: this.expertMix,
+        },
+        {
+          onStatusUpdate: this.onTrainingStatusUpdate,
+          onProgressUpdate: this.onProgressUpdate,
+          onEpochEnd: (metrics) => {
+            this.trainingHistory = [...this.trainingHistory, metrics]
+            this.onEpochEnd?.(metrics, this.trainingHistory)
+          },
+        },
       )
+      const result = await this.trainingJob.promise
 
-      this.model = result.model
       this.featureStats = result.featureStats
-
-      console.log(`=== Model Training Results (${this.currentLevel.toUpperCase()}) ===`)
+      this.modelConfig = result.config
+      this.evaluationReport = result.report
+      this.modelInsights = result.insights
+      if (result.model) await this.setModel(result.model)
+      else if (result.classifier) this.setClassifier(restoreClassifier(result.classifier))
+      await this.autoSaveModel()
+
+      console.log(`=== Model Training Results (${this.currentLevel.toUpperCase()}, seed ${this.trainingSeed}) ===`)
       console.log("Training completed successfully")
     } catch (error) {
       console.error("Training failed:", error)
       throw error
+    } finally {
+      this.trainingJob = null
     }
   }
 
+  // Every trained model lands in "My Models" so a student can pick up where they left off next lesson
+  private async autoSaveModel() {
+    const accuracy = this.evaluationReport ? ` · ${(this.evaluationReport.metrics.accuracy * 100).toFixed(1)}%` : ""
+    try {
+      const saved = await saveModel(this.model, {
+        name: `${LEVEL_NAMES[this.currentLevel]} model${accuracy}`,
+        level: this.currentLevel,
+        config: this.modelConfig,
+        datasetFingerprint: fingerprintDataset(datasetRows(this.dataset)),
+        datasetSize: countRows(this.dataset),
+        trainingSeed: this.trainingSeed,
+        featureStats: this.featureStats,
+        report: this.evaluationReport,
+        insights: this.modelInsights ?? undefined,
+        classifier: this.classifier && !this.model ? serializeClassifier(this.classifier) : undefined,
+      })
+      this.savedModelId = saved.id
+      this.onSavedModelsUpdate?.(listSavedModels())
+    } catch (error) {
+      // Private browsing or a full disk should not cost the student the model they just trained
+      console.error("[v0] Could not save model:", error)
+    }
+  }
+
+  getSavedModels() {
+    return listSavedModels()
+  }
+
+  async loadSavedModel(id: string) {
+    if (this.trainingJob) throw new Error("Wait for training to finish before loading a model")
+    const { model, classifier, meta } = await loadSavedModel(id)
+    if (this.isAI) this.stopAI()
+
+    this.featureStats = meta.featureStats
+    this.modelConfig = meta.config
+    this.evaluationReport = meta.report
+    this.modelInsights = meta.insights ?? null
+    this.trainingSeed = meta.trainingSeed
+    this.trainingHistory = []
+    this.savedModelId = meta.id
+    if (model) await this.setModel(model)
+    else this.setClassifier(classifier)
+
+    if (meta.level !== this.currentLevel) {
+      console.log(`[v0] Loaded a ${meta.level} model while playing ${this.currentLevel}`)
+    }
+    return meta
+  }
+
+  renameSavedModel(id: string, name: string) {
+    renameSavedModel(id, name)
+    this.onSavedModelsUpdate?.(listSavedModels())
+  }
+
+  async deleteSavedModel(id: string) {
+    await deleteSavedModel(id)
+    if (this.savedModelId === id) this.savedModelId = null
+    this.onSavedModelsUpdate?.(listSavedModels())
+  }
+
+  async downloadSavedModel(id: string) {
+    const meta = listSavedModels().find((model) => model.id === id)
+    const blob = await exportModelZip(id)
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `flappy_model_${(meta?.name ?? id).replace(/[^a-z0-9]+/gi, "_")}.zip`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  async importModelFile(file: File) {
+    const saved = await importModelZip(file)
+    this.onSavedModelsUpdate?.(listSavedModels())
+    return saved
+  }
+
+  setExpertMix(mix: ExpertMix) {
+    this.expertMix = mix
+  }
+
+  setTrainingConfig(config: TrainingConfig) {
+    this.trainingConfig = config
+  }
+
+  cancelTraining() {
+    if (!this.trainingJob) return
+    this.trainingJob.cancel()
+    console.log("Training cancelled")
+  }
+
   // Control methods
   startRecording() {
     this.isRecording = true
@@ -550,82 +1363,97 @@ export class GameEngine {
 
   clearDataset() {
     this.dataset = []
+    this.recordingEpisode = null
     this.onDataCountUpdate?.(0)
     console.log("Dataset cleared")
   }
 
-  downloadCSV() {
-    if (this.dataset.length === 0) {
+  // Drops one recorded run, e.g. the one that crashed into the first pipe
+  removeEpisode(id: number) {
+    if (this.recordingEpisode?.id === id) this.recordingEpisode = null
+    this.dataset = removeEpisode(this.dataset, id)
+    this.onDataCountUpdate?.(countRows(this.dataset))
+    console.log(`[v0] Removed episode ${id}`)
+  }
+
+  // Pre-training data check over everything recorded so far
+  diagnoseDataset(): DiagnosticsReport {
+    return diagnoseDataset(datasetRows(this.dataset), this.sim.config)
+  }
+
+  // One-click fix for a diagnostics check: drops the rows the check flagged
+  fixDataset(check: CheckId) {
+    this.removeRows(rowsToFix(check, datasetRows(this.dataset), this.sim.config))
+  }
+
+  removeRows(rows: GameData[]) {
+    this.dataset = removeRows(this.dataset, new Set(rows), this.recordingEpisode)
+    this.onDataCountUpdate?.(countRows(this.dataset))
+    console.log(`[v0] Removed ${rows.length} rows`)
+  }
+
+  downloadDataset(format: DatasetFormat) {
+    if (countRows(this.dataset) === 0) {
       alert("No data to download!")
       return
     }
-    const csv =
-      "pressed,y,vel,dist,mid1,mid2\n" +
-      this.dataset
-        .map(
-          (row) =>
-            `${row.pressed},${row.y.toFixed(2)},${row.vel.toFixed(2)},${row.dist.toFixed(2)},${row.mid1.toFixed(2)},${row.mid2.toFixed(2)}`,
-        )
-        .join("\n")
-    const blob = new Blob([csv], { type: "text/csv" })
+    const text = serializeDataset(
+      this.dataset,
+      { physics: this.sim.config, level: this.currentLevel, seed: this.courseSeed },
+      format,
+    )
+    const blob = new Blob([text], { type: formatMimeType(format) })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = "flappy_data.csv"
+    a.download = `flappy_data${formatExtension(format)}`
     a.click()
     URL.revokeObjectURL(url)
-    console.log(`Downloaded ${this.dataset.length} data points`)
+    console.log(`Downloaded ${countRows(this.dataset)} data points in ${this.dataset.length} episodes`)
   }
 
-  async uploadCSV(file: File) {
-    return new Promise<void>((resolve, reject) => {
+  // Resolves with what was imported, skipped or migrated; the caller shows the report. The file's extension
+  // picks the format, `format` is used when the extension names none.
+  async uploadDataset(file: File, format: DatasetFormat) {
+    return new Promise<ImportReport>((resolve) => {
       const reader = new FileReader()
       reader.onload = (e) => {
-        const text = e.target?.result as string
-        const lines = text.split("\n")
-        const headers = lines[0].split(",")
-
-        // Validate headers
-        if (headers.join(",") !== "pressed,y,vel,dist,mid1,mid2") {
-          alert("Invalid CSV format! Headers must be: pressed,y,vel,dist,mid1,mid2")
-          reject(new Error("Invalid CSV format"))
-          return
-        }
-
-        // Parse data
-        const newData = []
-        for (let i = 1; i < lines.length; i++) {
-          if (lines[i].trim() === "") continue
-          const values = lines[i].split(",")
-          if (values.length !== 6) continue
-
-          newData.push({
-            pressed: Number.parseInt(values[0]),
-            y: Number.parseFloat(values[1]),
-            vel: Number.parseFloat(values[2]),
-            dist: Number.parseFloat(values[3]),
-            mid1: Number.parseFloat(values[4]),
-            mid2: Number.parseFloat(values[5]),
-          })
-        }
-
-        if (newData.length > 0) {
-          this.dataset = [...this.dataset, ...newData]
-          this.onDataCountUpdate?.(this.dataset.length)
-          console.log(`Uploaded ${newData.length} data points. Total: ${this.dataset.length}`)
-          alert(`Successfully loaded ${newData.length} data points!`)
-          resolve()
+        const { episodes, report } = parseDataset(
+          e.target?.result as string,
+          formatFromFileName(file.name) ?? format,
+          this.dataset,
+          this.sim.config,
+        )
+        if (report.ok) {
+          this.dataset = [...this.dataset, ...episodes]
+          this.onDataCountUpdate?.(countRows(this.dataset))
+          console.log(
+            `[v0] Uploaded ${report.rows} data points in ${report.episodes} episodes ` +
+              `(schema ${report.schemaVersion}). Total: ${countRows(this.dataset)}`,
+          )
         } else {
-          alert("No valid data found in CSV!")
-          reject(new Error("No valid data found"))
+          console.warn(`[v0] Import of ${file.name} failed: ${report.error}`)
         }
+        resolve({ ...report, fileName: file.name })
+      }
+      reader.onerror = () => {
+        resolve({
+          ok: false,
+          fileName: file.name,
+          schemaVersion: 0,
+          rows: 0,
+          episodes: 0,
+          skipped: [],
+          warnings: [],
+          error: "The file could not be read.",
+        })
       }
       reader.readAsText(file)
     })
   }
 
   startAI() {
-    if (!this.model) {
+    if (!this.classifier) {
       alert("Train the model first!")
       return
     }
@@ -638,6 +1466,9 @@ export class GameEngine {
 
   stopAI() {
     this.isAI = false
+    this.cancelAIRestart()
+    this.lastDecision = null
+    this.decisionBoundary = null
     if (this.state === "playing") {
       this.endGame()
     }
@@ -645,10 +1476,17 @@ export class GameEngine {
   }
 
   restart() {
+    this.cancelAIRestart()
+    this.stopCrowd()
+    this.resetRLAgent()
+    this.stopReplay()
+    this.cancelTraining()
+
     // Clear all game state
     this.bird.reset()
     this.pipes = []
     this.score = 0
+    this.sim.alive = false
     this.state = "menu"
     this.keys = {}
     this.prevSpace = false
@@ -659,12 +1497,25 @@ export class GameEngine {
     this.gameStarted = false
     this.hoverOffset = 0
     this.gameOverTime = 0
+    this.pendingJump = false
+    this.currentReplay = null
 
     // Clear ML-related state
     this.dataset = []
+    this.recordingEpisode = null
     this.isRecording = false
     this.isAI = false
+    this.classifier?.dispose()
     this.model = null
+    this.classifier = null
+    this.aiFeatures = null
+    this.lastDecision = null
+    this.decisionBoundary = null
+    this.modelConfig = null
+    this.trainingHistory = []
+    this.evaluationReport = null
+    this.modelInsights = null
+    this.savedModelId = null
     this.featureStats = null
 
     // Update UI
@@ -0,0 +1,61 @@
+import { confusionAt, metricsFromConfusion } from "./evaluation"
+import { createRng, shuffle } from "./random"
+
+// Which inputs a model relies on. Both methods only need predictions, so they work the same for the
+// neural network and the classic classifiers.
+
+export type BatchPredict = (batch: number[][]) => ArrayLike<number>
+
+export interface FeatureImportance {
+  feature: number
+  drop: number // Test accuracy lost when this feature is shuffled, in 0..1
+}
+
+export interface ModelInsights {
+  importance: FeatureImportance[]
+  baseline: number[] // Mean of every feature over the training split; occlusion replaces inputs with it
+}
+
+const PERMUTATION_REPEATS = 5
+
+const accuracyOf = (predictions: ArrayLike<number>, labels: number[]) =>
+  metricsFromConfusion(confusionAt(predictions, labels, 0.5), 0.5).accuracy
+
+// Permutation importance: shuffle one column of the test set, keep everything else, and see how much
+// accuracy suffers. Averaged over a few shuffles because a single one is noisy on small test sets.
+export function permutationImportance(
+  predict: BatchPredict,
+  features: number[][],
+  labels: number[],
+  seed: number,
+): FeatureImportance[] {
+  const rng = createRng(seed)
+  const base = accuracyOf(predict(features), labels)
+  const featureCount = features[0]?.length ?? 0
+
+  return Array.from({ length: featureCount }, (_, feature) => {
+    let drop = 0
+    for (let repeat = 0; repeat < PERMUTATION_REPEATS; repeat++) {
+      const column = shuffle(features.map((row) => row[feature]), rng)
+      const permuted = features.map((row, i) => row.map((value, j) => (j === feature ? column[i] : value)))
+      drop += (base - accuracyOf(predict(permuted), labels)) / PERMUTATION_REPEATS
+    }
+    return { feature, drop }
+  })
+}
+
+// Occlusion: how much the jump probability changes when one input is replaced by its average value.
+// Positive means that input pushed the model towards jumping on this frame.
+export function occlusionAttribution(predict: BatchPredict, input: number[], baseline: number[]) {
+  const batch = [input, ...input.map((_, feature) => input.map((value, j) => (j === feature ? baseline[j] : value)))]
+  const predictions = predict(batch)
+  return input.map((_, feature) => predictions[0] - predictions[feature + 1])
+}
+
+export function featureMeans(features: number[][]) {
+  const featureCount = features[0]?.length ?? 0
+  return Array.from(
+    { length: featureCount },
+    (_, j) => features.reduce((sum, row) => sum + row[j], 0) / Math.max(1, features.length),
+  )
+}
@@ -1,45 +1,142 @@
 import type { GameData, FeatureStats } from "./game-engine"
+import { ALGORITHM_LABELS, createClassifier, serializeClassifier, type ClassifierState } from "./classifiers"
+import { evaluateBinary, type EvaluationReport } from "./evaluation"
+import { featureMeans, permutationImportance, type BatchPredict, type ModelInsights } from "./importance"
+import { createRng, randomSeed, shuffle } from "./random"
+import {
+  assignFolds,
+  checkFoldShare,
+  contiguousGroups,
+  holdoutFold,
+  maxGroupSize,
+  splitLongGroups,
+  summarizeFolds,
+  type CrossValidationReport,
+  type FoldResult,
+} from "./cross-validation"
+import { loadTf } from "./tf-loader"
+import { featureVector, type FeatureContext } from "./features"
+import { Preprocessor } from "./preprocessing"
+import { loadExpertRows, type ExpertMix, type TrainingComposition } from "./expert-data"
+import { DEFAULT_PHYSICS } from "./simulation"
+import { DEFAULT_TRAINING_CONFIG, modelFeatures, type TrainingConfig } from "./training-config"
+
+export interface EpochMetrics {
+  epoch: number
+  loss: number
+  accuracy: number
+  valLoss: number
+  valAccuracy: number
+}
+
+// The held-out test split is one of this many folds
+const HOLDOUT_FOLDS = 5
 
 export class MLTrainer {
-  private preprocessFeatures(rawFeatures: number[], featureStats: FeatureStats | null): number[] {
-    // First normalize by canvas dimensions (like original game)
-    const normalizedFeatures = [
-      rawFeatures[0], // y already normalized by canvas height
-      rawFeatures[1], // vel already normalized by 10
-      rawFeatures[2], // dist already normalized by canvas width
-      rawFeatures[3], // mid1 already normalized by canvas height
-      rawFeatures[4], // mid2 already normalized by canvas height
-    ]
-
-    // Then apply standardization if stats are available
-    if (!featureStats) return normalizedFeatures
-
-    return normalizedFeatures.map((val, i) => {
-      const standardized = (val - featureStats.means[i]) / (featureStats.stds[i] || 1)
-      return Math.max(-3, Math.min(3, standardized)) // Clamp to prevent extreme values
+  private buildModel(tf: any, config: TrainingConfig, seed: number) {
+    const model = tf.sequential()
+    config.hiddenLayers.forEach((units, i) => {
+      model.add(
+        tf.layers.dense({
+          ...(i === 0 ? { inputShape: [modelFeatures(config).length] } : {}),
+          units,
+          activation: config.activation,
+          kernelInitializer: tf.initializers.glorotUniform({ seed: seed + i }),
+        }),
+      )
+      if (config.dropout > 0 && i < config.hiddenLayers.length - 1) {
+        model.add(tf.layers.dropout({ rate: config.dropout, seed: seed + i }))
+      }
     })
-  }
-
-  private computeStats(features: number[][]): FeatureStats {
-    const n = features.length
-    const means = new Array(5).fill(0)
-    const stds = new Array(5).fill(0)
+    model.add(
+      tf.layers.dense({
+        units: 1,
+        activation: "sigmoid",
+        kernelInitializer: tf.initializers.glorotUniform({ seed: seed + config.hiddenLayers.length }),
+      }),
+    )
 
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < 5; j++) {
-        means[j] += features[i][j] / n
-      }
+    const optimizers = {
+      adam: () => tf.train.adam(config.learningRate),
+      sgd: () => tf.train.sgd(config.learningRate),
+      rmsprop: () => tf.train.rmsprop(config.learningRate),
     }
+    model.compile({
+      optimizer: optimizers[config.optimizer](),
+      loss: "binaryCrossentropy",
+      metrics: ["accuracy"],
+    })
+    return model
+  }
 
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < 5; j++) {
-        stds[j] += Math.pow(features[i][j] - means[j], 2) / n
-      }
+  // Fits the configured algorithm. The validation split is only used for the learning curves.
+  private async fitModel(
+    tf: any,
+    config: TrainingConfig,
+    seed: number,
+    features: number[][],
+    labels: number[][],
+    validation?: { features: number[][]; labels: number[][] },
+    onEpochEnd?: (metrics: EpochMetrics) => void,
+    onProgressUpdate?: (percent: number, text: string) => void,
+  ): Promise<{ model: any; classifier: ClassifierState | null; predict: BatchPredict }> {
+    if ((config.algorithm ?? "neural") !== "neural") {
+      const algorithm = config.algorithm as Exclude<TrainingConfig["algorithm"], "neural">
+      onProgressUpdate?.(70, `Fitting ${ALGORITHM_LABELS[algorithm].toLowerCase()}...`)
+
+      const fitted = createClassifier(algorithm, { k: config.knnK, maxDepth: config.treeDepth })
+      fitted.fit(
+        features,
+        labels.map(([label]) => label),
+      )
+      return { model: null, classifier: serializeClassifier(fitted), predict: (batch) => fitted.predict(batch) }
     }
 
+    const xs = tf.tensor2d(features)
+    const ys = tf.tensor2d(labels)
+    const xsVal = validation ? tf.tensor2d(validation.features) : null
+    const ysVal = validation ? tf.tensor2d(validation.labels) : null
+
+    onProgressUpdate?.(68, "Building model...")
+
+    const model = this.buildModel(tf, config, seed)
+
+    onProgressUpdate?.(70, "Learning from your recording...")
+
+    await model.fit(xs, ys, {
+      epochs: config.epochs,
+      batchSize: config.batchSize,
+      ...(validation ? { validationData: [xsVal, ysVal] } : {}),
+      verbose: 0,
+      callbacks: {
+        onEpochEnd: (epoch: number, logs: any) => {
+          onEpochEnd?.({
+            epoch: epoch + 1,
+            loss: logs.loss,
+            accuracy: logs.acc,
+            valLoss: logs.val_loss,
+            valAccuracy: logs.val_acc,
+          })
+
+          const progress = 70 + (epoch / config.epochs) * 20 // 70-90% for training
+          onProgressUpdate?.(progress, `Learning from your recording... Epoch ${epoch + 1}/${config.epochs}`)
+
+          if (onProgressUpdate && epoch % Math.max(1, Math.round(config.epochs / 5)) === 0) {
+            console.log(`Epoch ${epoch}: Loss=${logs.loss.toFixed(4)}, Acc=${logs.acc.toFixed(4)}`)
+          }
+        },
+      },
+    })
+
+    xs.dispose()
+    ys.dispose()
+    xsVal?.dispose()
+    ysVal?.dispose()
+
     return {
-      means,
-      stds: stds.map((s) => Math.sqrt(s) || 1),
+      model,
+      classifier: null,
+      predict: (batch) => tf.tidy(() => model.predict(tf.tensor2d(batch)).dataSync()),
     }
   }
 
@@ -50,210 +147,178 @@ export class MLTrainer {
     currentLevel: string, // Added level parameter
     onStatusUpdate?: (status: string) => void,
     onProgressUpdate?: (percent: number, text: string) => void,
-  ): Promise<{ model: any; featureStats: FeatureStats }> {
+    seed: number = randomSeed(),
+    config: TrainingConfig = DEFAULT_TRAINING_CONFIG,
+    onEpochEnd?: (metrics: EpochMetrics) => void,
+    episodeIds?: number[], // Episode of every dataset row; splits never separate an episode
+    expertMix: ExpertMix = {},
+  ): Promise<{
+    model: any // Null when a non-neural algorithm was trained
+    classifier: ClassifierState | null
+    featureStats: FeatureStats | null
+    seed: number
+    config: TrainingConfig
+    report: EvaluationReport
+    insights: ModelInsights
+  }> {
     if (dataset.length < 50) {
       throw new Error("Need at least 50 data points to train effectively!")
     }
 
-    const tf = await import("@tensorflow/tfjs")
+    const tf = await loadTf()
 
     onProgressUpdate?.(10, "Loading your recording...")
 
     let finalDataset = [...dataset]
-    if (currentLevel === "finetuning") {
-      try {
-        onProgressUpdate?.(15, "Loading additional training data...")
-        const response = await fetch("/existing_game_play.csv") // local file in public/
-        const csvText = await response.text()
-        const lines = csvText.split("\n")
-
-        // Parse first 500 entries (skip header)
-        const additionalData: GameData[] = []
-        for (let i = 1; i < Math.min(501, lines.length); i++) {
-          if (lines[i].trim() === "") continue
-          const values = lines[i].split(",")
-          if (values.length !== 6) continue
-
-          additionalData.push({
-            pressed: Number.parseInt(values[0]),
-            y: Number.parseFloat(values[1]),
-            vel: Number.parseFloat(values[2]),
-            dist: Number.parseFloat(values[3]),
-            mid1: Number.parseFloat(values[4]),
-            mid2: Number.parseFloat(values[5]),
-          })
-        }
-
-        finalDataset = [...dataset, ...additionalData]
-        console.log(
-          `[v0] Finetuning: Added ${additionalData.length} additional training examples`
-        )
-      } catch (error) {
-        console.warn("[v0] Failed to load additional training data:", error)
-        // Continue with original dataset if fetch fails
-      }
+    let composition: TrainingComposition = { student: dataset.length, experts: [] }
+    if (Object.values(expertMix).some(({ share }) => share > 0)) {
+      onProgressUpdate?.(15, "Loading expert data...")
+      const expert = await loadExpertRows(expertMix, dataset.length, { width: canvasWidth, height: canvasHeight }, seed)
+      finalDataset = [...dataset, ...expert.rows]
+      composition = expert.composition
+      console.log(`[v0] Mixed in ${expert.rows.length} expert training examples`)
     }
 
-    const rawFeatures = finalDataset.map((d) => [
-      d.y / canvasHeight,
-      d.vel / 10,
-      d.dist / canvasWidth,
-      d.mid1 / canvasHeight,
-      d.mid2 / canvasHeight,
-    ])
-    const labels = finalDataset.map((d) => [d.pressed])
+    // Same feature registry as inference, so training and play can never disagree
+    const features = modelFeatures(config)
+    const context: FeatureContext = { width: canvasWidth, height: canvasHeight, pipeSpeed: DEFAULT_PHYSICS.pipeSpeed }
+    const toFeatures = (d: GameData) => featureVector(d, features, context)
 
     onProgressUpdate?.(30, "Learning from your recording...")
 
-    // Apply same preprocessing as inference
-    const processedFeatures = rawFeatures.map((raw) => this.preprocessFeatures(raw, null))
-
     // Balance dataset
-    const class0 = finalDataset.filter((d) => d.pressed === 0)
-    const class1 = finalDataset.filter((d) => d.pressed === 1)
+    const class0 = finalDataset.flatMap((d, i) => (d.pressed === 0 ? [i] : []))
+    const class1 = finalDataset.flatMap((d, i) => (d.pressed === 1 ? [i] : []))
     console.log(`Class balance - Jump: ${class1.length}, No Jump: ${class0.length}`)
 
-    let balancedFeatures, balancedLabels
-    if (class1.length > 0) {
-      const ratio = Math.min(2, class0.length / class1.length)
-      const sampleSize = Math.floor(class1.length * ratio)
-      const step = Math.floor(class0.length / sampleSize)
-      const sampledClass0 = []
-      const sampledClass0Labels = []
-      for (let i = 0; i < class0.length; i += step) {
-        if (sampledClass0.length < sampleSize) {
-          sampledClass0.push(class0[i])
-          sampledClass0Labels.push([0]) // Ensure labels are arrays
-        }
-      }
-      balancedFeatures = [
-        ...sampledClass0.map((d) => [
-          d.y / canvasHeight,
-          d.vel / 10,
-          d.dist / canvasWidth,
-          d.mid1 / canvasHeight,
-          d.mid2 / canvasHeight,
-        ]),
-        ...class1.map((d) => [
-          d.y / canvasHeight,
-          d.vel / 10,
-          d.dist / canvasWidth,
-          d.mid1 / canvasHeight,
-          d.mid2 / canvasHeight,
-        ]),
-      ]
-      balancedLabels = [...sampledClass0Labels, ...class1.map((d) => [1])] // Ensure labels are arrays
-    } else {
+    if (class1.length === 0) {
       throw new Error("No jump actions recorded! Please record some gameplay with jumps.")
     }
+    const ratio = Math.min(2, class0.length / class1.length)
+    const sampleSize = Math.floor(class1.length * ratio)
+    const step = Math.floor(class0.length / sampleSize)
+    const sampledClass0: number[] = []
+    for (let i = 0; i < class0.length; i += step) {
+      if (sampledClass0.length < sampleSize) sampledClass0.push(class0[i])
+    }
 
-    // Shuffle
-    const indices = Array.from({ length: balancedFeatures.length }, (_, i) => i)
-    indices.sort(() => Math.random() - 0.5)
-    balancedFeatures = indices.map((i) => balancedFeatures[i])
-    balancedLabels = indices.map((i) => balancedLabels[i])
-
-    onProgressUpdate?.(50, "Splitting data...")
-
-    // Train-test split
-    const trainSize = Math.floor(0.8 * balancedFeatures.length)
-    const trainFeatures = balancedFeatures.slice(0, trainSize)
-    const trainLabels = balancedLabels.slice(0, trainSize)
-    const testFeatures = balancedFeatures.slice(trainSize)
-    const testLabels = balancedLabels.slice(trainSize)
-
-    const xsTrain = tf.tensor2d(trainFeatures)
-    const ysTrain = tf.tensor2d(trainLabels)
-    const xsTest = tf.tensor2d(testFeatures)
-    const ysTest = tf.tensor2d(testLabels)
+    // Shuffle with the run's seed so the same data and seed always give the same split
+    const rng = createRng(seed)
+    const rows = shuffle([...sampledClass0, ...class1], rng)
+    const balancedFeatures = rows.map((i) => toFeatures(finalDataset[i]))
+    const balancedLabels = rows.map((i) => [finalDataset[i].pressed])
+    // Rows without episodes, like mixed-in expert data, are grouped into stretches with ids of their own
+    const extraGroups = contiguousGroups(finalDataset.length - dataset.length).map((group) => -1 - group)
+    const recordedGroups = [...(episodeIds ?? contiguousGroups(dataset.length)), ...extraGroups]
+    // Episodes vary a lot in length; long ones are cut so no single run decides a test split
+    const balancedGroups = (folds: number) => {
+      const groups = splitLongGroups(recordedGroups, maxGroupSize(finalDataset.length, folds))
+      return rows.map((i) => groups[i])
+    }
 
-    onProgressUpdate?.(60, "Building model...")
+    const pick = <T>(items: T[], folds: number[], keep: (fold: number) => boolean) =>
+      items.filter((_, i) => keep(folds[i]))
+
+    // Hold out one fifth of the groups, never a scatter of single frames from every run. Drawn before the
+    // cross-validation folds so turning cross-validation on never moves the test split.
+    const { folds: holdout, byRow: splitByRow } = assignFolds(balancedGroups(HOLDOUT_FOLDS), HOLDOUT_FOLDS, rng)
+    const testFold = holdoutFold(holdout, HOLDOUT_FOLDS, rng)
+    const testShare = checkFoldShare(holdout, testFold, HOLDOUT_FOLDS)
+
+    let crossValidation: CrossValidationReport | undefined
+    const k = config.cvFolds ?? 0
+    if (k > 1) {
+      const cvGroups = balancedGroups(k)
+      const { folds: cvFolds, byRow } = assignFolds(cvGroups, k, rng)
+      const results: FoldResult[] = []
+      for (let fold = 0; fold < k; fold++) {
+        const progress = 35 + (fold / k) * 30 // 35-65% for cross-validation
+        onProgressUpdate?.(progress, `Cross-validating... Fold ${fold + 1}/${k}`)
+
+        checkFoldShare(cvFolds, fold, k)
+        const inTest = (f: number) => f === fold
+        const inTrain = (f: number) => f !== fold
+        const preprocessor = Preprocessor.fit(pick(balancedFeatures, cvFolds, inTrain), config.standardize ?? true)
+        const trainFeatures = preprocessor.transformAll(pick(balancedFeatures, cvFolds, inTrain))
+        const testFeatures = preprocessor.transformAll(pick(balancedFeatures, cvFolds, inTest))
+        const testLabels = pick(balancedLabels, cvFolds, inTest).map(([label]) => label)
+
+        const fitted = await this.fitModel(tf, config, seed, trainFeatures, pick(balancedLabels, cvFolds, inTrain))
+        const report = evaluateBinary(fitted.predict(testFeatures), testLabels)
+        fitted.model?.dispose()
+
+        results.push({
+          fold: fold + 1,
+          trainSize: trainFeatures.length,
+          testSize: testFeatures.length,
+          metrics: report.metrics,
+          rocAuc: report.rocAuc,
+        })
+        console.log(`[v0] Fold ${fold + 1}/${k}: accuracy ${(report.metrics.accuracy * 100).toFixed(1)}%`)
+      }
+      crossValidation = summarizeFolds(results, new Set(cvGroups).size, byRow)
+    }
 
-    // Create model
-    const model = tf.sequential()
-    model.add(
-      tf.layers.dense({
-        inputShape: [5],
-        units: 10,
-        activation: "relu",
-        kernelInitializer: "glorotUniform",
-      }),
-    )
-    model.add(tf.layers.dropout({ rate: 0.1 }))
-    model.add(
-      tf.layers.dense({
-        units: 5,
-        activation: "relu",
-      }),
-    )
-    model.add(
-      tf.layers.dense({
-        units: 1,
-        activation: "sigmoid",
-      }),
+    onProgressUpdate?.(65, "Splitting data...")
+
+    console.log(`[v0] Test split: ${(testShare * 100).toFixed(1)}% of the balanced rows`)
+
+    const isTest = (fold: number) => fold === testFold
+    const isTrain = (fold: number) => fold !== testFold
+    const trainLabels = pick(balancedLabels, holdout, isTrain)
+    const testLabels = pick(balancedLabels, holdout, isTest)
+
+    // Scaling is learnt from the training split alone so nothing about the test frames leaks into the model
+    const preprocessor = Preprocessor.fit(pick(balancedFeatures, holdout, isTrain), config.standardize ?? true)
+    const trainFeatures = preprocessor.transformAll(pick(balancedFeatures, holdout, isTrain))
+    const testFeatures = preprocessor.transformAll(pick(balancedFeatures, holdout, isTest))
+
+    const { model, classifier, predict } = await this.fitModel(
+      tf,
+      config,
+      seed,
+      trainFeatures,
+      trainLabels,
+      { features: testFeatures, labels: testLabels },
+      onEpochEnd,
+      onProgressUpdate,
     )
 
-    model.compile({
-      optimizer: tf.train.adam(0.005),
-      loss: "binaryCrossentropy",
-      metrics: ["accuracy"],
-    })
-
-    onProgressUpdate?.(70, "Learning from your recording...")
-
-    await model.fit(xsTrain, ysTrain, {
-      epochs: 150,
-      batchSize: 16,
-      validationData: [xsTest, ysTest],
-      verbose: 0,
-      callbacks: {
-        onEpochEnd: (epoch, logs) => {
-          const progress = 70 + (epoch / 150) * 20 // 70-90% for training
-          onProgressUpdate?.(progress, `Learning from your recording... Epoch ${epoch + 1}/150`)
-
-          if (epoch % 30 === 0) {
-            console.log(`Epoch ${epoch}: Loss=${logs.loss.toFixed(4)}, Acc=${logs.acc.toFixed(4)}`)
-          }
-        },
-      },
-    })
-
     onProgressUpdate?.(90, "Finalizing model...")
 
     // Evaluate
-    const predsTest = model.predict(xsTest).dataSync()
-    const truesTest = ysTest.dataSync()
-    let tp = 0,
-      fp = 0,
-      fn = 0,
-      tn = 0
-
-    for (let i = 0; i < predsTest.length; i++) {
-      const pred = predsTest[i] > 0.5 ? 1 : 0
-      const true_val = truesTest[i]
-
-      if (pred === 1 && true_val === 1) tp++
-      else if (pred === 1 && true_val === 0) fp++
-      else if (pred === 0 && true_val === 1) fn++
-      else tn++
+    const predsTest = predict(testFeatures)
+    const truesTest = testLabels.map(([label]: number[]) => label)
+    const report: EvaluationReport = {
+      ...evaluateBinary(predsTest, truesTest),
+      crossValidation,
+      composition,
+      ...(splitByRow && { splitByRow }),
     }
-
-    const precision = tp / (tp + fp) || 0
-    const recall = tp / (tp + fn) || 0
-    const f1 = (2 * precision * recall) / (precision + recall) || 0
-    const accuracy = (tp + tn) / (tp + tn + fp + fn)
+    const { accuracy, precision, recall, f1 } = report.metrics
 
     console.log("=== ML Trainer Results ===")
     console.log("Balanced dataset size:", balancedFeatures.length)
     console.log("Original dataset size:", dataset.length) // Show original user dataset size
-    if (currentLevel === "finetuning") {
-      console.log("Final dataset size (with additional data):", finalDataset.length)
+    if (finalDataset.length > dataset.length) {
+      console.log("Final dataset size (with expert data):", finalDataset.length)
     }
 
     console.log(`Accuracy: ${(accuracy * 100).toFixed(1)}%`)
     console.log(`Precision: ${(precision * 100).toFixed(1)}%`)
     console.log(`Recall: ${(recall * 100).toFixed(1)}%`)
     console.log(`F1 Score: ${f1.toFixed(3)}`)
+    console.log(`ROC AUC: ${report.rocAuc.toFixed(3)}`)
+
+    onProgressUpdate?.(95, "Measuring which inputs matter...")
+    const insights: ModelInsights = {
+      importance: permutationImportance(predict, testFeatures, truesTest, seed),
+      baseline: featureMeans(trainFeatures),
+    }
+    console.log(
+      "Permutation importance (accuracy drop):",
+      insights.importance.map(({ drop }) => `${(drop * 100).toFixed(1)}%`).join(", "),
+    )
 
     onProgressUpdate?.(100, "Training complete!")
 
@@ -267,12 +332,6 @@ export class MLTrainer {
       onStatusUpdate?.(`Model Ready! (${(accuracy * 100).toFixed(1)}% accuracy)`)
     }
 
-    // Clean up
-    xsTrain.dispose()
-    ysTrain.dispose()
-    xsTest.dispose()
-    ysTest.dispose()
-
-    return { model, featureStats: null } // Return null featureStats as it's not computed here
+    return { model, classifier, featureStats: preprocessor.stats, seed, config, report, insights }
   }
 }
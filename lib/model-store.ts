@@ -0,0 +1,246 @@
+import JSZip from "jszip"
+import { NeuralClassifier, restoreClassifier, type Classifier, type ClassifierState } from "./classifiers"
+import type { EvaluationReport } from "./evaluation"
+import type { FeatureStats, GameData, Level } from "./game-engine"
+import type { ModelInsights } from "./importance"
+import { loadTf } from "./tf-loader"
+import type { TrainingConfig } from "./training-config"
+
+// Trained models survive page reloads: weights live in IndexedDB through tfjs' own
+// "indexeddb://" handler, the descriptive metadata in localStorage next to the other flappyml- keys.
+// Non-neural classifiers are plain JSON but can be large (k-NN keeps its whole training set), so
+// their state goes to an IndexedDB store of its own and the metadata only names it.
+
+export const MODEL_EXPORT_VERSION = 1
+
+const INDEX_KEY = "flappyml-models"
+const MODEL_URL_PREFIX = "indexeddb://flappyml-model-"
+const CLASSIFIER_DB = "flappyml-classifiers"
+const CLASSIFIER_STORE = "classifiers"
+
+export interface SavedModelMeta {
+  id: string
+  name: string
+  level: Level
+  config: TrainingConfig | null
+  datasetFingerprint: string
+  datasetSize: number
+  trainingSeed: number | null
+  featureStats: FeatureStats | null
+  report: EvaluationReport | null
+  classifierKey?: string // Non-neural models: key of their state in the classifier store, instead of weights
+  classifier?: ClassifierState // Models saved before the classifier store kept their state inline
+  insights?: ModelInsights // Missing on models saved before feature importance existed
+  savedAt: number
+}
+
+export type NewModelMeta = Omit<SavedModelMeta, "id" | "savedAt" | "classifierKey">
+
+const modelUrl = (id: string) => `${MODEL_URL_PREFIX}${id}`
+
+function openClassifierStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(CLASSIFIER_DB, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(CLASSIFIER_STORE)
+    request.onsuccess = () => resolve(request.result.transaction(CLASSIFIER_STORE, mode).objectStore(CLASSIFIER_STORE))
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function classifierRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const store = await openClassifierStore(mode)
+  return new Promise<T>((resolve, reject) => {
+    const request = run(store)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function readClassifier(meta: SavedModelMeta): Promise<ClassifierState | null> {
+  if (meta.classifier) return meta.classifier
+  if (!meta.classifierKey) return null
+  const state = await classifierRequest<ClassifierState | undefined>("readonly", (store) =>
+    store.get(meta.classifierKey!),
+  )
+  if (!state) throw new Error("That model's classifier is missing from this browser's storage")
+  return state
+}
+
+// Moves classifiers saved inline by older versions into the store, so the index stays small
+async function moveInlineClassifiers(models: SavedModelMeta[]) {
+  return Promise.all(
+    models.map(async ({ classifier, ...meta }) => {
+      if (!classifier) return meta
+      await classifierRequest("readwrite", (store) => store.put(classifier, meta.id))
+      return { ...meta, classifierKey: meta.id }
+    }),
+  )
+}
+
+function writeIndex(models: SavedModelMeta[]) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(models))
+}
+
+export function listSavedModels(): SavedModelMeta[] {
+  try {
+    const stored = localStorage.getItem(INDEX_KEY)
+    return stored ? (JSON.parse(stored) as SavedModelMeta[]) : []
+  } catch (error) {
+    console.error("[v0] Could not read saved models:", error)
+    return []
+  }
+}
+
+// FNV-1a over every row, so "same data" can be recognised without storing the data itself
+export function fingerprintDataset(dataset: GameData[]) {
+  let hash = 0x811c9dc5
+  for (const row of dataset) {
+    const line = `${row.pressed},${row.y},${row.vel},${row.dist},${row.mid1},${row.mid2}\n`
+    for (let i = 0; i < line.length; i++) {
+      hash ^= line.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+// Pass model null together with meta.classifier to save a non-neural classifier
+export async function saveModel(model: any, { classifier, ...meta }: NewModelMeta): Promise<SavedModelMeta> {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+  const saved: SavedModelMeta = { ...meta, id, savedAt: Date.now(), ...(classifier && { classifierKey: id }) }
+  if (model) await model.save(modelUrl(id))
+  if (classifier) await classifierRequest("readwrite", (store) => store.put(classifier, id))
+  writeIndex([saved, ...(await moveInlineClassifiers(listSavedModels()))])
+  return saved
+}
+
+// model is the raw tfjs model (null for non-neural entries); classifier is what actually flies the bird
+export async function loadSavedModel(id: string): Promise<{ model: any; classifier: Classifier; meta: SavedModelMeta }> {
+  const meta = listSavedModels().find((model) => model.id === id)
+  if (!meta) throw new Error("That model no longer exists")
+  const state = await readClassifier(meta)
+  if (state) return { model: null, classifier: restoreClassifier(state), meta }
+  const tf = await loadTf()
+  const model = await tf.loadLayersModel(modelUrl(id))
+  return { model, classifier: new NeuralClassifier(model), meta }
+}
+
+export function renameSavedModel(id: string, name: string) {
+  writeIndex(listSavedModels().map((model) => (model.id === id ? { ...model, name } : model)))
+}
+
+export async function deleteSavedModel(id: string) {
+  const meta = listSavedModels().find((model) => model.id === id)
+  if (meta?.classifierKey) {
+    try {
+      await classifierRequest("readwrite", (store) => store.delete(meta.classifierKey!))
+    } catch (error) {
+      console.warn("[v0] Classifier state was already gone:", error)
+    }
+  }
+  if (meta?.classifier || meta?.classifierKey) {
+    writeIndex(listSavedModels().filter((model) => model.id !== id))
+    return
+  }
+  const tf = await loadTf()
+  try {
+    await tf.io.removeModel(modelUrl(id))
+  } catch (error) {
+    // Metadata without weights is useless either way, so still drop it from the list
+    console.warn("[v0] Model weights were already gone:", error)
+  }
+  writeIndex(listSavedModels().filter((model) => model.id !== id))
+}
+
+// The zip holds a standard tfjs model.json + weights.bin pair (loadable by any tfjs app)
+// plus metadata.json for this game. Non-neural classifiers only need metadata.json.
+export async function exportModelZip(id: string): Promise<Blob> {
+  const { model, meta } = await loadSavedModel(id)
+  const zip = new JSZip()
+  // The zip carries the classifier state itself; the store key means nothing in another browser
+  const exported = { version: MODEL_EXPORT_VERSION, ...meta, classifierKey: undefined }
+  if (!model) {
+    const classifier = await readClassifier(meta)
+    zip.file("metadata.json", JSON.stringify({ ...exported, classifier }, null, 2))
+    return zip.generateAsync({ type: "blob" })
+  }
+
+  const tf = await loadTf()
+  let artifacts: any = null
+  await model.save(
+    tf.io.withSaveHandler(async (saved: any) => {
+      artifacts = saved
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: "JSON" } }
+    }),
+  )
+  model.dispose()
+  if (!artifacts) throw new Error("Model could not be serialized")
+
+  zip.file(
+    "model.json",
+    JSON.stringify({
+      format: artifacts.format ?? "layers-model",
+      generatedBy: artifacts.generatedBy,
+      convertedBy: artifacts.convertedBy ?? null,
+      modelTopology: artifacts.modelTopology,
+      weightsManifest: [{ paths: ["weights.bin"], weights: artifacts.weightSpecs }],
+    }),
+  )
+  zip.file("weights.bin", tf.io.concatenateArrayBuffers(artifacts.weightData))
+  zip.file("metadata.json", JSON.stringify(exported, null, 2))
+  return zip.generateAsync({ type: "blob" })
+}
+
+export async function importModelZip(file: File): Promise<SavedModelMeta> {
+  const zip = await JSZip.loadAsync(file)
+
+  const metadataFile = zip.file("metadata.json")
+  const metadata: Partial<SavedModelMeta> & { version?: number } = metadataFile
+    ? JSON.parse(await metadataFile.async("string"))
+    : {}
+  if (metadata.version !== undefined && metadata.version > MODEL_EXPORT_VERSION) {
+    throw new Error(`Model export version ${metadata.version} is newer than this game supports`)
+  }
+
+  const importedMeta: NewModelMeta = {
+    name: metadata.name ?? file.name.replace(/\.zip$/i, ""),
+    level: metadata.level ?? "finetuning",
+    config: metadata.config ?? null,
+    datasetFingerprint: metadata.datasetFingerprint ?? "unknown",
+    datasetSize: metadata.datasetSize ?? 0,
+    trainingSeed: metadata.trainingSeed ?? null,
+    featureStats: metadata.featureStats ?? null,
+    report: metadata.report ?? null,
+    ...(metadata.classifier ? { classifier: metadata.classifier } : {}),
+    ...(metadata.insights ? { insights: metadata.insights } : {}),
+  }
+
+  if (metadata.classifier) return saveModel(null, importedMeta)
+
+  const modelFile = zip.file("model.json")
+  if (!modelFile) throw new Error("The zip does not contain a model.json")
+
+  const modelJson = JSON.parse(await modelFile.async("string"))
+  const manifest: { paths: string[]; weights: unknown[] }[] = modelJson.weightsManifest ?? []
+  const weightBuffers: ArrayBuffer[] = []
+  for (const group of manifest) {
+    for (const path of group.paths) {
+      const weights = zip.file(path)
+      if (!weights) throw new Error(`The zip is missing the weights file "${path}"`)
+      weightBuffers.push(await weights.async("arraybuffer"))
+    }
+  }
+
+  const tf = await loadTf()
+  const model = await tf.loadLayersModel(
+    tf.io.fromMemory({
+      modelTopology: modelJson.modelTopology,
+      weightSpecs: manifest.flatMap((group) => group.weights) as any,
+      weightData: tf.io.concatenateArrayBuffers(weightBuffers),
+    }),
+  )
+
+  const saved = await saveModel(model, importedMeta)
+  model.dispose()
+  return saved
+}
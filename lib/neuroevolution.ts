@@ -0,0 +1,205 @@
+import { CrowdRun, type CrowdMember, type CrowdResult } from "./crowd"
+import { createRng, randomSeed, type Rng } from "./random"
+import { TICKS_PER_SECOND, type PhysicsConfig } from "./simulation"
+import { DEFAULT_TRAINING_CONFIG } from "./training-config"
+
+// Learning by trial and error: a population of small networks flies the course, the ones that get
+// furthest become the parents of the next generation. No recorded gameplay is involved.
+
+export type FitnessMode = "distance" | "score"
+
+export interface EvolutionConfig {
+  hiddenLayers: number[] // Same shape as the supervised network so the two can be compared
+  populationSize: number
+  mutationRate: number // Chance that any single weight is nudged
+  mutationStrength: number // Standard deviation of the nudge
+  crossoverRate: number // Chance a child mixes two parents instead of cloning one
+  eliteCount: number // Best genomes copied unchanged into the next generation
+  fitness: FitnessMode
+  maxSeconds: number // A generation ends once this much game time has passed
+}
+
+export const DEFAULT_EVOLUTION_CONFIG: EvolutionConfig = {
+  hiddenLayers: DEFAULT_TRAINING_CONFIG.hiddenLayers,
+  populationSize: 50,
+  mutationRate: 0.1,
+  mutationStrength: 0.5,
+  crossoverRate: 0.7,
+  eliteCount: 2,
+  fitness: "distance",
+  maxSeconds: 60,
+}
+
+export const EVOLUTION_LIMITS = {
+  populationSize: { min: 10, max: 200, step: 10 },
+  mutationRate: { min: 0, max: 0.5, step: 0.01 },
+  mutationStrength: { min: 0.05, max: 2, step: 0.05 },
+  crossoverRate: { min: 0, max: 1, step: 0.05 },
+  eliteCount: { min: 0, max: 10 },
+}
+
+export interface GenerationStats {
+  generation: number
+  best: number
+  mean: number
+  bestPipes: number
+}
+
+const INPUT_COUNT = 5
+const TOURNAMENT_SIZE = 3
+
+// Plain feed-forward network over a flat weight array: relu hidden layers, sigmoid output
+export class Network {
+  readonly layers: number[]
+  readonly weights: Float32Array
+
+  constructor(hiddenLayers: number[], weights?: Float32Array) {
+    this.layers = [INPUT_COUNT, ...hiddenLayers, 1]
+    this.weights = weights ?? new Float32Array(Network.weightCount(this.layers))
+  }
+
+  static weightCount(layers: number[]) {
+    let count = 0
+    for (let l = 1; l < layers.length; l++) count += (layers[l - 1] + 1) * layers[l] // +1 for the bias
+    return count
+  }
+
+  static random(hiddenLayers: number[], rng: Rng) {
+    const network = new Network(hiddenLayers)
+    let offset = 0
+    for (let l = 1; l < network.layers.length; l++) {
+      const fanIn = network.layers[l - 1]
+      const limit = Math.sqrt(6 / (fanIn + network.layers[l])) // Glorot uniform, like the tfjs model
+      for (let i = 0; i < (fanIn + 1) * network.layers[l]; i++) {
+        network.weights[offset++] = (rng() * 2 - 1) * limit
+      }
+    }
+    return network
+  }
+
+  predict(input: number[]) {
+    let activations = input
+    let offset = 0
+    for (let l = 1; l < this.layers.length; l++) {
+      const fanIn = this.layers[l - 1]
+      const isOutput = l === this.layers.length - 1
+      const next: number[] = new Array(this.layers[l])
+      for (let j = 0; j < this.layers[l]; j++) {
+        let sum = this.weights[offset + fanIn]
+        for (let i = 0; i < fanIn; i++) sum += activations[i] * this.weights[offset + i]
+        next[j] = isOutput ? 1 / (1 + Math.exp(-sum)) : Math.max(0, sum)
+        offset += fanIn + 1
+      }
+      activations = next
+    }
+    return activations[0]
+  }
+}
+
+export function fitnessOf(result: CrowdResult, mode: FitnessMode, maxTicks: number) {
+  // Distance counts every tick alive; score counts pipes and only uses time to break ties
+  return mode === "distance" ? result.survivalTicks : result.pipesPassed + result.survivalTicks / (maxTicks + 1)
+}
+
+// Box-Muller; good enough for mutation noise
+function gaussian(rng: Rng) {
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng())
+}
+
+export class Evolution {
+  config: EvolutionConfig
+  rng: Rng
+  seed: number
+  population: Network[]
+  generation: number
+  history: GenerationStats[]
+  best: Network | null
+
+  constructor(config: EvolutionConfig = DEFAULT_EVOLUTION_CONFIG, seed: number = randomSeed()) {
+    this.config = config
+    this.seed = seed
+    this.rng = createRng(seed)
+    this.population = Array.from({ length: config.populationSize }, () =>
+      Network.random(config.hiddenLayers, this.rng),
+    )
+    this.generation = 1
+    this.history = []
+    this.best = null
+  }
+
+  get maxTicks() {
+    return Math.round(this.config.maxSeconds * TICKS_PER_SECOND)
+  }
+
+  // Each generation flies a fresh course so the population cannot memorise one set of gaps
+  courseSeed() {
+    return Math.floor(createRng(this.seed + this.generation)() * 1_000_000)
+  }
+
+  members(color = "rgba(255, 105, 180, 0.35)", bestColor = "#ff69b4"): CrowdMember[] {
+    return this.population.map((network, i) => ({
+      id: `g${this.generation}-${i}`,
+      name: i < this.config.eliteCount && this.generation > 1 ? `Elite ${i + 1}` : `Bird ${i + 1}`,
+      // Elites are drawn solid so last generation's champions can be followed
+      color: i < this.config.eliteCount && this.generation > 1 ? bestColor : color,
+      decide: (sim) => network.predict(sim.getRawFeatures()) > 0.5,
+    }))
+  }
+
+  // Takes the results of the current population (in member order) and breeds the next one
+  advance(results: CrowdResult[]) {
+    const fitness = results.map((result) => fitnessOf(result, this.config.fitness, this.maxTicks))
+    const order = fitness.map((_, i) => i).sort((a, b) => fitness[b] - fitness[a])
+
+    this.best = this.population[order[0]]
+    this.history.push({
+      generation: this.generation,
+      best: fitness[order[0]],
+      mean: fitness.reduce((sum, value) => sum + value, 0) / fitness.length,
+      bestPipes: results[order[0]].pipesPassed,
+    })
+
+    const next: Network[] = order
+      .slice(0, Math.min(this.config.eliteCount, this.config.populationSize))
+      .map((i) => this.population[i])
+    while (next.length < this.config.populationSize) {
+      const parentA = this.select(fitness)
+      const child =
+        this.rng() < this.config.crossoverRate ? this.crossover(parentA, this.select(fitness)) : parentA.weights.slice()
+      this.mutate(child)
+      next.push(new Network(this.config.hiddenLayers, child))
+    }
+
+    this.population = next
+    this.generation++
+  }
+
+  // Evaluates and breeds one generation without drawing anything (fast-forward)
+  runHeadless(physics: Partial<PhysicsConfig> = {}) {
+    const crowd = new CrowdRun(this.members(), this.courseSeed(), physics, this.maxTicks)
+    while (!crowd.finished) crowd.step()
+    this.advance(crowd.results)
+  }
+
+  private select(fitness: number[]) {
+    let winner = Math.floor(this.rng() * fitness.length)
+    for (let k = 1; k < TOURNAMENT_SIZE; k++) {
+      const challenger = Math.floor(this.rng() * fitness.length)
+      if (fitness[challenger] > fitness[winner]) winner = challenger
+    }
+    return this.population[winner]
+  }
+
+  // Uniform crossover: every weight comes from one parent or the other
+  private crossover(a: Network, b: Network) {
+    const child = new Float32Array(a.weights.length)
+    for (let i = 0; i < child.length; i++) child[i] = this.rng() < 0.5 ? a.weights[i] : b.weights[i]
+    return child
+  }
+
+  private mutate(weights: Float32Array) {
+    for (let i = 0; i < weights.length; i++) {
+      if (this.rng() < this.config.mutationRate) weights[i] += gaussian(this.rng) * this.config.mutationStrength
+    }
+  }
+}
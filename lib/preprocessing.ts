@@ -0,0 +1,51 @@
+// Preprocessing between the feature registry and the model. It is fitted on the training split only,
+// travels with the model as FeatureStats, and runs unchanged during play, so a model always sees
+// inputs scaled exactly like the ones it was trained on.
+
+export interface FeatureStats {
+  means: number[]
+  stds: number[]
+}
+
+// Standardized values further out than this are clamped so one odd frame cannot dominate a decision
+const CLAMP = 3
+
+export class Preprocessor {
+  readonly stats: FeatureStats | null // Null means the features are passed through unscaled
+
+  constructor(stats: FeatureStats | null = null) {
+    this.stats = stats
+  }
+
+  // Learns every feature's mean and standard deviation from the training rows
+  static fit(features: number[][], standardize: boolean): Preprocessor {
+    if (!standardize || features.length === 0) return new Preprocessor(null)
+
+    const n = features.length
+    const count = features[0].length
+    const means = new Array(count).fill(0)
+    const stds = new Array(count).fill(0)
+
+    for (const row of features) {
+      for (let j = 0; j < count; j++) means[j] += row[j] / n
+    }
+    for (const row of features) {
+      for (let j = 0; j < count; j++) stds[j] += (row[j] - means[j]) ** 2 / n
+    }
+
+    return new Preprocessor({ means, stds: stds.map((s) => Math.sqrt(s) || 1) })
+  }
+
+  transform(features: number[]): number[] {
+    const stats = this.stats
+    if (!stats) return features
+    return features.map((value, j) => {
+      const standardized = (value - stats.means[j]) / (stats.stds[j] || 1)
+      return Math.max(-CLAMP, Math.min(CLAMP, standardized))
+    })
+  }
+
+  transformAll(rows: number[][]) {
+    return rows.map((row) => this.transform(row))
+  }
+}
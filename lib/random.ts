@@ -0,0 +1,35 @@
+// Small seedable random number generator so courses and training runs can be replayed exactly.
+
+export type Rng = () => number
+
+// mulberry32: fast, 32-bit state, good enough for gameplay and shuffling
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Seeds are kept to six digits so students can read them out and type them in
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 900000) + 100000
+}
+
+export function parseSeed(value: string): number | null {
+  const seed = Number.parseInt(value.trim(), 10)
+  return Number.isFinite(seed) && seed >= 0 ? seed : null
+}
+
+// Fisher-Yates shuffle that returns a new array
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
@@ -0,0 +1,321 @@
+import type { CrowdPolicy } from "./crowd"
+import { createRng, randomSeed, type Rng } from "./random"
+import { SAMPLE_EVERY_TICKS, Simulation, TICKS_PER_SECOND, type PhysicsConfig } from "./simulation"
+import { getTf } from "./tf-loader"
+
+// Reinforcement learning on the same five features the supervised model sees. The agent acts on
+// sampling ticks (10 times per game second), exactly like the pink AI bird.
+
+export type AgentKind = "tabular" | "dqn"
+
+export const ACTIONS = ["wait", "jump"] as const
+export type Action = 0 | 1
+
+export interface RLConfig {
+  agent: AgentKind
+  learningRate: number
+  discount: number
+  epsilonStart: number
+  epsilonMin: number
+  epsilonDecay: number // Multiplied into epsilon after every episode
+  maxSeconds: number // Episodes are cut off here even if the bird is still flying
+}
+
+export function defaultRLConfig(agent: AgentKind): RLConfig {
+  return {
+    agent,
+    learningRate: agent === "tabular" ? 0.1 : 0.001,
+    discount: 0.95,
+    // Random flapping sends the bird into the ceiling, so exploration starts low
+    epsilonStart: agent === "tabular" ? 0.1 : 0.3,
+    epsilonMin: 0.01,
+    epsilonDecay: agent === "tabular" ? 0.99 : 0.98,
+    maxSeconds: 60,
+  }
+}
+
+// Rewards per decision step
+export const REWARDS = { survive: 0.1, pipe: 1, crash: -1 }
+
+export interface Transition {
+  state: number[]
+  action: Action
+  reward: number
+  nextState: number[]
+  done: boolean
+}
+
+export interface EpisodeStats {
+  episode: number
+  reward: number
+  avgReward: number // Moving average, the raw reward is very noisy
+  pipes: number
+  epsilon: number
+}
+
+export interface QHeatmap {
+  yBins: number
+  offsetBins: number
+  values: number[][] // [yBin][offsetBin], best Q-value averaged over the other state dimensions
+  jump: boolean[][] // Whether jumping is the greedy action there
+  visited: boolean[][]
+}
+
+export interface Agent {
+  kind: AgentKind
+  act(state: number[], explore: boolean): Action
+  learn(transition: Transition): void
+  dispose(): void
+}
+
+const MOVING_AVERAGE = 20
+
+// --- Tabular Q-learning --------------------------------------------------------------------------
+
+const Y_BINS = 12
+const OFFSET_BINS = 20
+const VEL_BINS = 8
+const DIST_BINS = 2
+
+const bin = (value: number, min: number, max: number, bins: number) =>
+  Math.max(0, Math.min(bins - 1, Math.floor(((value - min) / (max - min)) * bins)))
+
+export class QTableAgent implements Agent {
+  kind: AgentKind = "tabular"
+  config: RLConfig
+  rng: Rng
+  epsilon: number
+  table: Float32Array
+  visits: Uint32Array
+
+  constructor(config: RLConfig, rng: Rng) {
+    this.config = config
+    this.rng = rng
+    this.epsilon = config.epsilonStart
+    this.table = new Float32Array(Y_BINS * OFFSET_BINS * VEL_BINS * DIST_BINS * ACTIONS.length)
+    this.visits = new Uint32Array(Y_BINS * OFFSET_BINS * VEL_BINS * DIST_BINS)
+  }
+
+  // Bird height, where the next gap is relative to the bird, vertical speed and distance to the pipe
+  stateIndex([y, vel, dist, mid1]: number[]) {
+    const yBin = bin(y, 0, 1, Y_BINS)
+    const offsetBin = bin(mid1 - y, -0.3, 0.3, OFFSET_BINS)
+    const velBin = bin(vel, -0.6, 1, VEL_BINS)
+    const distBin = bin(dist, 0, 1, DIST_BINS)
+    return ((yBin * OFFSET_BINS + offsetBin) * VEL_BINS + velBin) * DIST_BINS + distBin
+  }
+
+  act(state: number[], explore: boolean): Action {
+    if (explore && this.rng() < this.epsilon) return this.rng() < 0.5 ? 1 : 0
+    const s = this.stateIndex(state) * 2
+    return this.table[s + 1] > this.table[s] ? 1 : 0
+  }
+
+  learn({ state, action, reward, nextState, done }: Transition) {
+    const s = this.stateIndex(state)
+    const next = this.stateIndex(nextState) * 2
+    const target = done ? reward : reward + this.config.discount * Math.max(this.table[next], this.table[next + 1])
+    this.table[s * 2 + action] += this.config.learningRate * (target - this.table[s * 2 + action])
+    this.visits[s]++
+  }
+
+  heatmap(): QHeatmap {
+    const values: number[][] = []
+    const jump: boolean[][] = []
+    const visited: boolean[][] = []
+    for (let y = 0; y < Y_BINS; y++) {
+      values.push([])
+      jump.push([])
+      visited.push([])
+      for (let o = 0; o < OFFSET_BINS; o++) {
+        let best = 0
+        let jumpVotes = 0
+        let count = 0
+        for (let v = 0; v < VEL_BINS; v++) {
+          for (let d = 0; d < DIST_BINS; d++) {
+            const s = ((y * OFFSET_BINS + o) * VEL_BINS + v) * DIST_BINS + d
+            if (this.visits[s] === 0) continue
+            best += Math.max(this.table[s * 2], this.table[s * 2 + 1])
+            if (this.table[s * 2 + 1] > this.table[s * 2]) jumpVotes++
+            count++
+          }
+        }
+        values[y].push(count > 0 ? best / count : 0)
+        jump[y].push(count > 0 && jumpVotes > count / 2)
+        visited[y].push(count > 0)
+      }
+    }
+    return { yBins: Y_BINS, offsetBins: OFFSET_BINS, values, jump, visited }
+  }
+
+  dispose() {}
+}
+
+// --- Deep Q-network ------------------------------------------------------------------------------
+
+const DQN_HIDDEN_UNITS = 24
+const DQN_BUFFER_SIZE = 10_000
+const DQN_BATCH_SIZE = 32
+const DQN_WARMUP = 500 // Transitions collected before the first gradient step
+const DQN_TARGET_SYNC = 250 // Steps between copies of the online network into the target network
+
+export class DQNAgent implements Agent {
+  kind: AgentKind = "dqn"
+  config: RLConfig
+  rng: Rng
+  epsilon: number
+  buffer: Transition[]
+  steps: number
+  private tf: any
+  private model: any
+  private target: any
+  private optimizer: any
+
+  constructor(config: RLConfig, rng: Rng) {
+    const tf = getTf()
+    if (!tf) throw new Error("TensorFlow.js is not loaded yet")
+    this.tf = tf
+    this.config = config
+    this.rng = rng
+    this.epsilon = config.epsilonStart
+    this.buffer = []
+    this.steps = 0
+    this.model = this.buildNetwork()
+    this.target = this.buildNetwork()
+    this.target.setWeights(this.model.getWeights())
+    this.optimizer = tf.train.adam(config.learningRate)
+  }
+
+  private buildNetwork() {
+    const tf = this.tf
+    return tf.sequential({
+      layers: [
+        tf.layers.dense({ inputShape: [5], units: DQN_HIDDEN_UNITS, activation: "relu" }),
+        tf.layers.dense({ units: DQN_HIDDEN_UNITS, activation: "relu" }),
+        tf.layers.dense({ units: ACTIONS.length }), // One Q-value per action, no squashing
+      ],
+    })
+  }
+
+  act(state: number[], explore: boolean): Action {
+    if (explore && this.rng() < this.epsilon) return this.rng() < 0.5 ? 1 : 0
+    const q = this.tf.tidy(() => this.model.predict(this.tf.tensor2d([state])).dataSync() as Float32Array)
+    return q[1] > q[0] ? 1 : 0
+  }
+
+  learn(transition: Transition) {
+    if (this.buffer.length < DQN_BUFFER_SIZE) this.buffer.push(transition)
+    else this.buffer[this.steps % DQN_BUFFER_SIZE] = transition
+    this.steps++
+
+    if (this.buffer.length >= DQN_WARMUP) this.trainBatch()
+    if (this.steps % DQN_TARGET_SYNC === 0) this.target.setWeights(this.model.getWeights())
+  }
+
+  private trainBatch() {
+    const tf = this.tf
+    const batch = Array.from({ length: DQN_BATCH_SIZE }, () => this.buffer[Math.floor(this.rng() * this.buffer.length)])
+
+    tf.tidy(() => {
+      const states = tf.tensor2d(batch.map((t) => t.state))
+      const nextStates = tf.tensor2d(batch.map((t) => t.nextState))
+      const actions = tf.oneHot(tf.tensor1d(batch.map((t) => t.action), "int32"), ACTIONS.length)
+      const rewards = tf.tensor1d(batch.map((t) => t.reward))
+      const notDone = tf.tensor1d(batch.map((t) => (t.done ? 0 : 1)))
+      const nextQ = this.target.predict(nextStates).max(1)
+      const targets = rewards.add(nextQ.mul(notDone).mul(this.config.discount))
+
+      this.optimizer.minimize(() => {
+        const q = this.model.predict(states).mul(actions).sum(1)
+        return tf.losses.huberLoss(targets, q)
+      })
+    })
+  }
+
+  dispose() {
+    this.model.dispose()
+    this.target.dispose()
+    this.optimizer.dispose()
+  }
+}
+
+// --- Training loop -------------------------------------------------------------------------------
+
+export class RLTrainer {
+  config: RLConfig
+  agent: QTableAgent | DQNAgent
+  rng: Rng
+  seed: number
+  episodes: EpisodeStats[]
+
+  constructor(config: RLConfig, seed: number = randomSeed()) {
+    this.config = config
+    this.seed = seed
+    this.rng = createRng(seed)
+    this.agent = config.agent === "tabular" ? new QTableAgent(config, this.rng) : new DQNAgent(config, this.rng)
+    this.episodes = []
+  }
+
+  get epsilon() {
+    return this.agent.epsilon
+  }
+
+  get maxTicks() {
+    return Math.round(this.config.maxSeconds * TICKS_PER_SECOND)
+  }
+
+  // One decision: apply the action on the next tick, then let the world run until the next sampling tick
+  private advance(sim: Simulation, action: Action) {
+    let reward = 0
+    for (let i = 0; i < SAMPLE_EVERY_TICKS; i++) {
+      const result = sim.step(i === 0 && action === 1)
+      if (result.scored) reward += REWARDS.pipe
+      if (result.dead) return { reward: reward + REWARDS.crash, done: true }
+    }
+    return { reward: reward + REWARDS.survive, done: sim.tick >= this.maxTicks }
+  }
+
+  // Plays one headless episode on a fresh course while learning from every step
+  runEpisode(physics: Partial<PhysicsConfig> = {}): EpisodeStats {
+    const sim = new Simulation(physics)
+    sim.reset(Math.floor(this.rng() * 1_000_000))
+    let state = sim.getRawFeatures()
+    let total = 0
+    let done = false
+
+    while (!done) {
+      const action = this.agent.act(state, true)
+      const outcome = this.advance(sim, action)
+      const nextState = sim.getRawFeatures()
+      this.agent.learn({ state, action, reward: outcome.reward, nextState, done: outcome.done })
+      total += outcome.reward
+      state = nextState
+      done = outcome.done
+    }
+
+    const recent = this.episodes.slice(-(MOVING_AVERAGE - 1))
+    const stats: EpisodeStats = {
+      episode: this.episodes.length + 1,
+      reward: total,
+      avgReward: (recent.reduce((sum, e) => sum + e.reward, 0) + total) / (recent.length + 1),
+      pipes: sim.score,
+      epsilon: this.agent.epsilon,
+    }
+    this.episodes.push(stats)
+    this.agent.epsilon = Math.max(this.config.epsilonMin, this.agent.epsilon * this.config.epsilonDecay)
+    return stats
+  }
+
+  // Greedy policy for watching the agent fly; no exploration, no learning
+  policy(): CrowdPolicy {
+    return (sim) => this.agent.act(sim.getRawFeatures(), false) === 1
+  }
+
+  heatmap() {
+    return this.agent instanceof QTableAgent ? this.agent.heatmap() : null
+  }
+
+  dispose() {
+    this.agent.dispose()
+  }
+}
@@ -0,0 +1,128 @@
+import type { Level } from "./game-engine"
+import { Simulation, TICKS_PER_SECOND, type PhysicsConfig, type StepResult } from "./simulation"
+
+export const REPLAY_VERSION = 1
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+export interface ReplayDecision {
+  tick: number
+  prediction: number
+  threshold: number
+  jumped: boolean
+}
+
+// Everything needed to re-simulate a run tick for tick: the course comes from the seed,
+// the bird's path from the jump ticks.
+export interface Replay {
+  version: number
+  id: string
+  seed: number
+  physics: PhysicsConfig
+  level: Level
+  firstGapCenter: number | null
+  fixedGapCenter: number | null
+  startY: number // The bird hovers before a human's first jump, so the start height varies
+  player: "human" | "ai"
+  jumps: number[] // Ticks whose step started with a jump
+  decisions: ReplayDecision[] // AI predictions, one per sampling tick
+  totalTicks: number
+  finalScore: number
+  recordedAt: string
+}
+
+export function createReplay(
+  sim: Simulation,
+  level: Level,
+  player: "human" | "ai",
+  firstGapCenter: number | null,
+): Replay {
+  return {
+    version: REPLAY_VERSION,
+    id: `${Date.now().toString(36)}-${sim.seed}`,
+    seed: sim.seed,
+    physics: { ...sim.config },
+    level,
+    firstGapCenter,
+    fixedGapCenter: sim.fixedGapCenter,
+    startY: sim.bird.pos.y,
+    player,
+    jumps: [],
+    decisions: [],
+    totalTicks: 0,
+    finalScore: 0,
+    recordedAt: new Date().toISOString(),
+  }
+}
+
+export function describeReplay(replay: Replay) {
+  const seconds = (replay.totalTicks / TICKS_PER_SECOND).toFixed(1)
+  return `${replay.player === "ai" ? "AI" : "Human"} · score ${replay.finalScore} · ${seconds}s · seed ${replay.seed}`
+}
+
+export function serializeReplay(replay: Replay) {
+  return JSON.stringify(replay)
+}
+
+export function parseReplay(text: string): Replay {
+  const data = JSON.parse(text)
+  if (data?.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data?.version}`)
+  }
+  if (typeof data.seed !== "number" || !Array.isArray(data.jumps) || typeof data.totalTicks !== "number") {
+    throw new Error("Replay file is missing seed, jumps or totalTicks")
+  }
+  return { decisions: [], ...data } as Replay
+}
+
+// Re-runs a replay through the headless simulation. Seeking backwards re-simulates
+// from the start, which is cheap because a run is only a few thousand ticks.
+export class ReplayPlayer {
+  replay: Replay
+  sim: Simulation
+  private jumpTicks: Set<number>
+
+  constructor(replay: Replay) {
+    this.replay = replay
+    this.sim = new Simulation(replay.physics)
+    this.jumpTicks = new Set(replay.jumps)
+    this.restart()
+  }
+
+  get tick() {
+    return this.sim.tick
+  }
+
+  get finished() {
+    return !this.sim.alive || this.sim.tick >= this.replay.totalTicks
+  }
+
+  restart() {
+    this.sim.reset(this.replay.seed, this.replay.firstGapCenter ?? undefined)
+    this.sim.fixedGapCenter = this.replay.fixedGapCenter
+    this.sim.bird.pos.y = this.replay.startY
+  }
+
+  step(): StepResult | null {
+    if (this.finished) return null
+    return this.sim.step(this.jumpTicks.has(this.sim.tick + 1))
+  }
+
+  seek(tick: number) {
+    const target = Math.max(0, Math.min(tick, this.replay.totalTicks))
+    if (target < this.sim.tick) this.restart()
+    while (this.sim.tick < target && !this.finished) {
+      this.step()
+    }
+  }
+
+  // The most recent AI decision at or before the current tick
+  currentDecision(): ReplayDecision | null {
+    let latest: ReplayDecision | null = null
+    for (const decision of this.replay.decisions) {
+      if (decision.tick > this.sim.tick) break
+      latest = decision
+    }
+    return latest
+  }
+}
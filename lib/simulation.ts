@@ -0,0 +1,246 @@
+// Headless game rules shared by the canvas game, tests and AI rollouts.
+// Nothing in this file may touch the DOM, timers or the network.
+
+import { DEFAULT_FEATURES, featureVector } from "./features"
+import { createRng, randomSeed, type Rng } from "./random"
+
+export interface Position {
+  x: number
+  y: number
+}
+
+export interface Velocity {
+  y: number
+}
+
+// Where the bird starts, and hovers until a human's first jump
+export const BIRD_START_Y = 300
+
+export class Bird {
+  pos: Position
+  vel: Velocity
+  radius: number
+  color: string
+
+  constructor() {
+    this.pos = { x: 50, y: BIRD_START_Y }
+    this.vel = { y: 0 }
+    this.radius = 20
+    this.color = "#ffd700" // Default gold color for human player
+  }
+
+  reset() {
+    this.pos = { x: 50, y: BIRD_START_Y }
+    this.vel = { y: 0 }
+  }
+}
+
+export class Pipe {
+  x: number
+  width: number
+  gapSize: number
+  gapCenter: number
+  color: string
+  passed?: boolean
+
+  constructor(canvasHeight: number, x: number, fixedGapCenter?: number, rng: Rng = Math.random) {
+    this.x = x
+    this.width = 40
+    this.gapSize = 200
+    this.gapCenter = fixedGapCenter !== undefined ? fixedGapCenter : rng() * (canvasHeight - 300) + 150
+    this.color = "#228b22"
+  }
+
+  get top() {
+    return this.gapCenter - this.gapSize / 2
+  }
+
+  get bottom() {
+    return this.gapCenter + this.gapSize / 2
+  }
+}
+
+// Physics constants are tuned per tick, so the world always advances at this rate regardless of display refresh
+export const TICKS_PER_SECOND = 60
+export const TICK_MS = 1000 / TICKS_PER_SECOND
+// Recording and AI decisions happen every 6 ticks (10 times per simulated second)
+export const SAMPLE_EVERY_TICKS = 6
+
+// One recorded sample: the raw game state in pixels plus the action taken. Model inputs are derived
+// from it by lib/features.ts.
+export interface GameData {
+  pressed: number
+  y: number
+  vel: number
+  dist: number
+  mid1: number
+  mid2: number
+}
+
+export interface PhysicsConfig {
+  width: number
+  height: number
+  gravity: number
+  jumpStrength: number
+  pipeSpeed: number
+  pipeInterval: number
+}
+
+export const DEFAULT_PHYSICS: PhysicsConfig = {
+  width: 500,
+  height: 600,
+  gravity: 0.2,
+  jumpStrength: -5,
+  pipeSpeed: 2,
+  pipeInterval: 250,
+}
+
+export interface StepResult {
+  scored: boolean
+  dead: boolean
+}
+
+export type DeathCause = "pipe" | "ceiling" | "ground"
+
+export class Simulation {
+  config: PhysicsConfig
+  bird: Bird
+  pipes: Pipe[]
+  score: number
+  alive: boolean
+  deathCause: DeathCause | null
+  nextPipeDist: number
+  tick: number
+  seed: number
+  rng: Rng
+  // When set, newly spawned pipes use this gap instead of a random one (overfitting level)
+  fixedGapCenter: number | null
+
+  constructor(config: Partial<PhysicsConfig> = {}) {
+    this.config = { ...DEFAULT_PHYSICS, ...config }
+    this.bird = new Bird()
+    this.pipes = []
+    this.score = 0
+    this.alive = false
+    this.deathCause = null
+    this.nextPipeDist = 0
+    this.tick = 0
+    this.seed = 0
+    this.rng = createRng(0)
+    this.fixedGapCenter = null
+  }
+
+  // The seed alone decides every random gap, so the same seed always produces the same course
+  reset(seed: number = randomSeed(), firstGapCenter?: number) {
+    this.seed = seed
+    this.rng = createRng(seed)
+    this.bird.reset()
+    this.pipes = [new Pipe(this.config.height, this.config.width, firstGapCenter, this.rng)]
+    this.nextPipeDist = this.config.pipeInterval
+    this.score = 0
+    this.alive = true
+    this.deathCause = null
+    this.tick = 0
+  }
+
+  jump() {
+    this.bird.vel.y = this.config.jumpStrength
+  }
+
+  // Advance the world by one tick. A jump is applied before gravity so that
+  // step(true) behaves exactly like a press landing between two frames.
+  step(jump = false): StepResult {
+    const result: StepResult = { scored: false, dead: false }
+    if (!this.alive) {
+      result.dead = true
+      return result
+    }
+
+    if (jump) this.jump()
+    this.tick++
+
+    // Apply gravity and move bird
+    this.bird.vel.y += this.config.gravity
+    this.bird.pos.y += this.bird.vel.y
+
+    this.nextPipeDist -= this.config.pipeSpeed
+    if (this.nextPipeDist <= 0) {
+      this.pipes.push(
+        new Pipe(
+          this.config.height,
+          this.config.width,
+          this.fixedGapCenter !== null ? this.fixedGapCenter : undefined,
+          this.rng,
+        ),
+      )
+      this.nextPipeDist = this.config.pipeInterval
+    }
+
+    this.pipes = this.pipes.filter((pipe) => pipe.x + pipe.width > 0)
+
+    for (const pipe of this.pipes) {
+      pipe.x -= this.config.pipeSpeed
+
+      if (this.collidesWith(pipe)) {
+        return this.die(result, "pipe")
+      }
+
+      if (pipe.x + pipe.width < this.bird.pos.x && !pipe.passed) {
+        pipe.passed = true
+        this.score++
+        result.scored = true
+      }
+    }
+
+    if (this.isOutOfBounds()) {
+      return this.die(result, this.bird.pos.y < this.config.height / 2 ? "ceiling" : "ground")
+    }
+
+    return result
+  }
+
+  private die(result: StepResult, cause: DeathCause): StepResult {
+    this.alive = false
+    this.deathCause = cause
+    result.dead = true
+    return result
+  }
+
+  collidesWith(pipe: Pipe) {
+    return (
+      this.bird.pos.x + this.bird.radius > pipe.x &&
+      this.bird.pos.x - this.bird.radius < pipe.x + pipe.width &&
+      (this.bird.pos.y - this.bird.radius < pipe.top || this.bird.pos.y + this.bird.radius > pipe.bottom)
+    )
+  }
+
+  isOutOfBounds() {
+    return this.bird.pos.y + this.bird.radius > this.config.height || this.bird.pos.y - this.bird.radius < 0
+  }
+
+  getNextPipe(offset = 0): Pipe | null {
+    const upcoming = this.pipes
+      .filter((pipe) => pipe.x + pipe.width > this.bird.pos.x - this.bird.radius)
+      .sort((a, b) => a.x - b.x)
+    return upcoming[offset] || null
+  }
+
+  // The default five inputs, used by the agents that do not learn from recordings
+  getRawFeatures() {
+    return featureVector(this.getCurrentData(), DEFAULT_FEATURES, this.config)
+  }
+
+  getCurrentData(): GameData {
+    const { width, height } = this.config
+    const next = this.getNextPipe(0)
+    const nextNext = this.getNextPipe(1)
+    return {
+      pressed: 0, // Will be set later
+      y: this.bird.pos.y,
+      vel: this.bird.vel.y,
+      dist: next ? next.x - this.bird.pos.x : width,
+      mid1: next ? next.gapCenter : height / 2,
+      mid2: nextNext ? nextNext.gapCenter : height / 2,
+    }
+  }
+}
@@ -0,0 +1,24 @@
+// TensorFlow.js is large, so it is loaded lazily once and then shared. After loadTf()
+// has resolved, getTf() hands out the module synchronously for per-tick inference.
+
+type TfModule = typeof import("@tensorflow/tfjs")
+
+let tfModule: TfModule | null = null
+let loading: Promise<TfModule> | null = null
+
+export function loadTf(): Promise<TfModule> {
+  if (tfModule) return Promise.resolve(tfModule)
+  if (!loading) {
+    loading = import("@tensorflow/tfjs").then(async (tf) => {
+      await tf.ready()
+      tfModule = tf
+      console.log(`[tf] TensorFlow.js ready on the ${tf.getBackend()} backend`)
+      return tf
+    })
+  }
+  return loading
+}
+
+export function getTf(): TfModule | null {
+  return tfModule
+}
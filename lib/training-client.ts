@@ -0,0 +1,133 @@
+import type { ClassifierState } from "./classifiers"
+import type { EvaluationReport } from "./evaluation"
+import type { ExpertMix } from "./expert-data"
+import type { FeatureStats, GameData } from "./game-engine"
+import type { ModelInsights } from "./importance"
+import type { EpochMetrics } from "./ml-trainer"
+import { loadTf } from "./tf-loader"
+import type { TrainingConfig } from "./training-config"
+
+// Messages exchanged with lib/training.worker.ts
+
+export interface TrainingRequest {
+  dataset: GameData[]
+  episodeIds: number[] // Episode of every row, so splits keep each run together
+  canvasHeight: number
+  canvasWidth: number
+  level: string
+  seed: number
+  config: TrainingConfig
+  expertMix: ExpertMix
+}
+
+export interface SerializedModel {
+  modelTopology: object
+  weightSpecs: unknown[]
+  weightData: ArrayBuffer
+}
+
+export type TrainingWorkerMessage =
+  | { type: "progress"; percent: number; text: string }
+  | { type: "status"; status: string }
+  | { type: "epoch"; metrics: EpochMetrics }
+  | {
+      type: "done"
+      model: SerializedModel | null
+      classifier: ClassifierState | null
+      featureStats: FeatureStats | null
+      seed: number
+      config: TrainingConfig
+      report: EvaluationReport
+      insights: ModelInsights
+    }
+  | { type: "error"; message: string }
+
+export interface TrainingResult {
+  model: any // Null when a non-neural algorithm was trained
+  classifier: ClassifierState | null
+  featureStats: FeatureStats | null
+  seed: number
+  config: TrainingConfig
+  report: EvaluationReport
+  insights: ModelInsights
+}
+
+export interface TrainingHandlers {
+  onStatusUpdate?: (status: string) => void
+  onProgressUpdate?: (percent: number, text: string) => void
+  onEpochEnd?: (metrics: EpochMetrics) => void
+}
+
+export class TrainingCancelledError extends Error {
+  constructor() {
+    super("Training was cancelled")
+    this.name = "TrainingCancelledError"
+  }
+}
+
+export interface TrainingJob {
+  promise: Promise<TrainingResult>
+  cancel: () => void
+}
+
+// Runs MLTrainer in a dedicated worker so model.fit never blocks the canvas or the chat.
+// Cancelling terminates the worker outright; nothing from the run is kept.
+export function trainInWorker(request: TrainingRequest, handlers: TrainingHandlers = {}): TrainingJob {
+  const worker = new Worker(new URL("./training.worker.ts", import.meta.url))
+  let settled = false
+  let rejectJob: (error: Error) => void = () => {}
+
+  const promise = new Promise<TrainingResult>((resolve, reject) => {
+    rejectJob = reject
+
+    worker.onmessage = async (event: MessageEvent<TrainingWorkerMessage>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        handlers.onProgressUpdate?.(message.percent, message.text)
+      } else if (message.type === "status") {
+        handlers.onStatusUpdate?.(message.status)
+      } else if (message.type === "epoch") {
+        handlers.onEpochEnd?.(message.metrics)
+      } else if (message.type === "done") {
+        settled = true
+        worker.terminate()
+        try {
+          const tf = await loadTf()
+          const model = message.model ? await tf.loadLayersModel(tf.io.fromMemory(message.model as any)) : null
+          resolve({
+            model,
+            classifier: message.classifier,
+            featureStats: message.featureStats,
+            seed: message.seed,
+            config: message.config,
+            report: message.report,
+            insights: message.insights,
+          })
+        } catch (error) {
+          reject(error as Error)
+        }
+      } else if (message.type === "error") {
+        settled = true
+        worker.terminate()
+        reject(new Error(message.message))
+      }
+    }
+
+    worker.onerror = (event) => {
+      settled = true
+      worker.terminate()
+      reject(new Error(event.message || "Training worker crashed"))
+    }
+
+    worker.postMessage(request)
+  })
+
+  const cancel = () => {
+    if (settled) return
+    settled = true
+    worker.terminate()
+    rejectJob(new TrainingCancelledError())
+  }
+
+  return { promise, cancel }
+}
@@ -0,0 +1,74 @@
+import { ALGORITHM_LABELS, type Algorithm } from "./classifiers"
+import { DEFAULT_FEATURES, type FeatureId } from "./features"
+
+// Everything students can change about the network and how it is trained.
+// The defaults reproduce the original hard-coded model.
+
+export type Activation = "relu" | "tanh" | "sigmoid" | "elu"
+
+export type OptimizerName = "adam" | "sgd" | "rmsprop"
+
+export interface TrainingConfig {
+  features: FeatureId[] // Model inputs, in order
+  algorithm: Algorithm // Only "neural" uses the network settings below
+  knnK: number // Neighbours consulted by k-NN
+  treeDepth: number // Maximum depth of the decision tree
+  standardize: boolean // Rescale every input to mean 0, std 1 using the training split
+  cvFolds: number // k for k-fold cross-validation before the final fit; 0 skips it
+  hiddenLayers: number[] // Units per hidden layer
+  activation: Activation
+  dropout: number // Applied after every hidden layer except the last
+  learningRate: number
+  epochs: number
+  batchSize: number
+  optimizer: OptimizerName
+}
+
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  features: DEFAULT_FEATURES,
+  algorithm: "neural",
+  knnK: 7,
+  treeDepth: 4,
+  standardize: true,
+  cvFolds: 0,
+  hiddenLayers: [10, 5],
+  activation: "relu",
+  dropout: 0.1,
+  learningRate: 0.005,
+  epochs: 150,
+  batchSize: 16,
+  optimizer: "adam",
+}
+
+export const TRAINING_LIMITS = {
+  layers: { min: 1, max: 4 },
+  units: { min: 1, max: 64 },
+  dropout: { min: 0, max: 0.5, step: 0.05 },
+  epochs: { min: 10, max: 500, step: 10 },
+  knnK: { min: 1, max: 25, step: 2 }, // Odd values avoid tied votes
+  treeDepth: { min: 1, max: 8 },
+}
+
+export const ACTIVATIONS: Activation[] = ["relu", "tanh", "sigmoid", "elu"]
+
+export const OPTIMIZERS: OptimizerName[] = ["adam", "sgd", "rmsprop"]
+
+export const LEARNING_RATES = [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1]
+
+export const BATCH_SIZES = [4, 8, 16, 32, 64, 128]
+
+export const CV_FOLDS = [0, 3, 5, 10]
+
+// Configs saved before inputs could be chosen have no features field
+export function modelFeatures(config: TrainingConfig | null): FeatureId[] {
+  return config?.features ?? DEFAULT_FEATURES
+}
+
+export function describeArchitecture(config: TrainingConfig, inputCount = modelFeatures(config).length) {
+  // Models saved before other algorithms existed have no algorithm field
+  const algorithm = config.algorithm ?? "neural"
+  if (algorithm === "knn") return `${config.knnK}-nearest neighbours`
+  if (algorithm === "tree") return `decision tree, depth ≤ ${config.treeDepth}`
+  if (algorithm === "logistic") return `${ALGORITHM_LABELS.logistic.toLowerCase()} on ${inputCount} features`
+  return [inputCount, ...config.hiddenLayers, 1].join(" → ")
+}
@@ -0,0 +1,69 @@
+// Web Worker entry for model training. Receives a TrainingRequest, streams progress back and
+// finally posts the trained model as topology + weights so the main thread can rebuild it.
+
+import { MLTrainer } from "./ml-trainer"
+import { loadTf } from "./tf-loader"
+import type { SerializedModel, TrainingRequest, TrainingWorkerMessage } from "./training-client"
+
+const worker = self as unknown as Worker
+
+const post = (message: TrainingWorkerMessage, transfer: Transferable[] = []) => {
+  worker.postMessage(message, transfer)
+}
+
+async function serializeModel(model: any): Promise<SerializedModel> {
+  const tf = await loadTf()
+  let serialized: SerializedModel | null = null
+  await model.save(
+    tf.io.withSaveHandler(async (artifacts: any) => {
+      serialized = {
+        modelTopology: artifacts.modelTopology,
+        weightSpecs: artifacts.weightSpecs,
+        // Newer tfjs versions may hand back sharded buffers; one buffer is easier to transfer
+        weightData: tf.io.concatenateArrayBuffers(artifacts.weightData),
+      }
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: "JSON" } }
+    }),
+  )
+  if (!serialized) throw new Error("Model could not be serialized")
+  return serialized
+}
+
+worker.onmessage = async (event: MessageEvent<TrainingRequest>) => {
+  const request = event.data
+  try {
+    const trainer = new MLTrainer()
+    const result = await trainer.trainModel(
+      request.dataset,
+      request.canvasHeight,
+      request.canvasWidth,
+      request.level,
+      (status) => post({ type: "status", status }),
+      (percent, text) => post({ type: "progress", percent, text }),
+      request.seed,
+      request.config,
+      (metrics) => post({ type: "epoch", metrics }),
+      request.episodeIds,
+      request.expertMix,
+    )
+
+    // Non-neural classifiers come back as plain JSON and need no serialization
+    const model = result.model ? await serializeModel(result.model) : null
+    result.model?.dispose()
+    post(
+      {
+        type: "done",
+        model,
+        classifier: result.classifier,
+        featureStats: result.featureStats,
+        seed: result.seed,
+        config: result.config,
+        report: result.report,
+        insights: result.insights,
+      },
+      model ? [model.weightData] : [],
+    )
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message })
+  }
+}